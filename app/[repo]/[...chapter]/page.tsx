@@ -1,8 +1,11 @@
-import { getRepoInfo, getFileContent, getChapters } from '@/lib/github';
-import { parseReadme } from '@/lib/readme-parser';
+import { getRepoInfo, getFileContent, getChapters, getGuideInfo, getLinkContext, formatDirectoryName, Chapter } from '@/lib/github';
+import { formatEstimatedTime, getChapterNumber } from '@/lib/chapter-meta';
 import { MarkdownRenderer } from '@/components/MarkdownRenderer';
 import { Breadcrumbs } from '@/components/Breadcrumbs';
 import { ProgressIndicator } from '@/components/ProgressIndicator';
+import ChapterCompletion from '@/components/ChapterCompletion';
+import ChapterAnnotations from '@/components/ChapterAnnotations';
+import BookmarkButton from '@/components/BookmarkButton';
 import Link from 'next/link';
 import { notFound } from 'next/navigation';
 
@@ -11,12 +14,14 @@ export const revalidate = 3600;
 interface PageProps {
   params: {
     repo: string;
-    chapter: string;
+    chapter: string[];
   };
 }
 
 export default async function ChapterPage({ params }: PageProps): Promise<React.JSX.Element> {
-  const { repo: repoName, chapter: chapterSlug } = params;
+  const { repo: repoName } = params;
+  // Nested chapters span several segments, e.g. /shell-c/part-2-parser/03_tokens
+  const chapterSlug = params.chapter.map(decodeURIComponent).join('/');
 
   try {
     const [repoInfo, chapters] = await Promise.all([
@@ -36,50 +41,43 @@ export default async function ChapterPage({ params }: PageProps): Promise<React.
       notFound();
     }
 
-    // Fetch and parse README for title
-    let repoTitle = repoName;
-    try {
-      const readmeContent = await getFileContent(repoName, 'README.md', repoInfo.default_branch);
-      if (readmeContent) {
-        const readmeData = parseReadme(readmeContent, repoName);
-        repoTitle = readmeData.title;
-      }
-    } catch (error) {
-      // Fallback to repo name if README fetch fails
-      console.error(`Error fetching README for ${repoName}:`, error);
-    }
+    const repoTitle = (await getGuideInfo(repoName)).title;
 
-    const chapterNumber = chapter.name.match(/^(\d+)/)?.[1] || '';
-    const chapterTitle = chapter.name
-      .replace(/^\d+[-_]?/, '')
-      .replace('.md', '')
-      .replace(/_/g, ' ')
-      .replace(/\b\w/g, (l) => l.toUpperCase());
+    const chapterNumber = getChapterNumber(chapter.name);
+    const chapterTitle = chapter.title;
+    const { meta } = chapter;
+    const prerequisites = meta.prerequisites
+      .map((slug) => chapters.find((c) => c.slug === slug))
+      .filter((c): c is Chapter => !!c);
 
     const prevChapter = chapterIndex > 0 ? chapters[chapterIndex - 1] : null;
     const nextChapter = chapterIndex < chapters.length - 1 ? chapters[chapterIndex + 1] : null;
 
-    const getChapterDisplayName = (chapterName: string): string => {
-      return chapterName
-        .replace(/^\d+[-_]?/, '')
-        .replace('.md', '')
-        .replace(/_/g, ' ')
-        .replace(/\b\w/g, (l) => l.toUpperCase());
-    };
-
-    // Build breadcrumb items
+    // Build breadcrumb items, with one crumb per chapter folder linking to its first chapter
+    const directoryItems = chapter.directory
+      .split('/')
+      .filter(Boolean)
+      .map((_, index, segments) => {
+        const directory = segments.slice(0, index + 1).join('/');
+        const firstChapter = chapters.find((c) => c.slug.startsWith(`${directory}/`));
+        return {
+          label: formatDirectoryName(directory),
+          href: `/${repoName}/${firstChapter?.slug ?? chapterSlug}`,
+        };
+      });
     const breadcrumbItems = [
       { label: repoTitle, href: `/${repoName}` },
+      ...directoryItems,
       { label: chapterTitle, href: `/${repoName}/${chapterSlug}` },
     ];
 
     return (
-      <div className="max-w-4xl mx-auto px-4 md:px-8">
+      <div className="max-w-4xl xl:max-w-6xl mx-auto px-4 md:px-8">
         {/* Progress indicator */}
         <ProgressIndicator
-          totalChapters={chapters.length}
-          currentChapterIndex={chapterIndex}
           repoName={repoName}
+          chapterSlugs={chapters.map((c) => c.slug)}
+          currentChapterSlug={chapter.slug}
         />
 
         {/* Breadcrumbs */}
@@ -96,7 +94,48 @@ export default async function ChapterPage({ params }: PageProps): Promise<React.
             <h1 className="text-4xl md:text-5xl font-bold text-gray-900 dark:text-white">
               {chapterTitle}
             </h1>
+            <div className="ml-auto shrink-0">
+              <BookmarkButton repoName={repoName} chapterSlug={chapter.slug} />
+            </div>
           </div>
+          {meta.summary && (
+            <p className="text-lg text-gray-600 dark:text-gray-400 mb-4">{meta.summary}</p>
+          )}
+          {(meta.difficulty || meta.estimatedMinutes || meta.tags.length > 0) && (
+            <div className="flex flex-wrap items-center gap-2 text-xs">
+              {meta.difficulty && (
+                <span className="px-2 py-0.5 rounded font-medium border bg-purple-500/20 text-purple-400 border-purple-500/30 capitalize">
+                  {meta.difficulty}
+                </span>
+              )}
+              {meta.estimatedMinutes && (
+                <span className="px-2 py-0.5 rounded font-medium border bg-blue-500/20 text-blue-400 border-blue-500/30">
+                  {formatEstimatedTime(meta.estimatedMinutes)}
+                </span>
+              )}
+              {meta.tags.map((tag) => (
+                <span
+                  key={tag}
+                  className="px-2 py-0.5 rounded font-medium border bg-gray-100 dark:bg-[#171717] text-gray-600 dark:text-gray-400 border-gray-200 dark:border-[#262626]"
+                >
+                  {tag}
+                </span>
+              ))}
+            </div>
+          )}
+          {prerequisites.length > 0 && (
+            <p className="mt-4 text-sm text-gray-600 dark:text-gray-400">
+              Before you start:{' '}
+              {prerequisites.map((prerequisite, index) => (
+                <span key={prerequisite.slug}>
+                  {index > 0 && ', '}
+                  <Link href={`/${repoName}/${prerequisite.slug}`} className="text-blue-600 dark:text-blue-400 hover:underline">
+                    {prerequisite.title}
+                  </Link>
+                </span>
+              ))}
+            </p>
+          )}
         </div>
 
         {/* Main content */}
@@ -104,11 +143,22 @@ export default async function ChapterPage({ params }: PageProps): Promise<React.
           <MarkdownRenderer
             content={chapterContent}
             repoName={repoName}
-            branch={repoInfo.default_branch}
+            linkContext={await getLinkContext(repoName, chapter.path)}
             skipFirstHeading={true}
+            withToc
+            chapter={{ repoName, chapterSlug: chapter.slug }}
+            asciiDiagrams={meta.asciiDiagrams}
           />
         </article>
 
+        <ChapterAnnotations repoName={repoName} chapterSlug={chapter.slug} />
+
+        <ChapterCompletion
+          repoName={repoName}
+          chapterSlug={chapter.slug}
+          nextChapter={nextChapter && { slug: nextChapter.slug, title: nextChapter.title }}
+        />
+
         <div className="flex items-center justify-between pt-8 border-t border-gray-200 dark:border-[#262626]">
           {prevChapter ? (
             <Link
@@ -121,7 +171,7 @@ export default async function ChapterPage({ params }: PageProps): Promise<React.
               <div>
                 <div className="text-xs text-gray-500 dark:text-gray-500 uppercase tracking-wider">Previous</div>
                 <div className="text-sm font-semibold text-gray-900 dark:text-white group-hover:text-blue-400 transition-colors">
-                  {getChapterDisplayName(prevChapter.name)}
+                  {prevChapter.title}
                 </div>
               </div>
             </Link>
@@ -137,7 +187,7 @@ export default async function ChapterPage({ params }: PageProps): Promise<React.
               <div className="text-right">
                 <div className="text-xs text-gray-500 dark:text-gray-500 uppercase tracking-wider">Next</div>
                 <div className="text-sm font-semibold text-gray-900 dark:text-white group-hover:text-blue-400 transition-colors">
-                  {getChapterDisplayName(nextChapter.name)}
+                  {nextChapter.title}
                 </div>
               </div>
               <svg className="w-5 h-5 text-gray-600 dark:text-gray-400 group-hover:text-gray-900 dark:group-hover:text-white transition-colors" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -158,15 +208,15 @@ export default async function ChapterPage({ params }: PageProps): Promise<React.
 export async function generateStaticParams() {
   const { getRepositoriesWithDocs } = await import('@/lib/github');
   const repos = await getRepositoriesWithDocs();
-  const params: { repo: string; chapter: string }[] = [];
+  const params: { repo: string; chapter: string[] }[] = [];
 
   for (const repo of repos) {
     const { getChapters } = await import('@/lib/github');
-    const chapters = await getChapters(repo.name);
+    const chapters = await getChapters(repo.slug);
     for (const chapter of chapters) {
       params.push({
-        repo: repo.name,
-        chapter: chapter.slug,
+        repo: repo.slug,
+        chapter: chapter.slug.split('/'),
       });
     }
   }
@@ -0,0 +1,69 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { getChapters, getGuideInfo, getRepoInfo } from '@/lib/github';
+import GuideNotes from '@/components/GuideNotes';
+
+export const revalidate = 3600;
+
+export const metadata: Metadata = {
+  title: 'My notes',
+  robots: { index: false },
+};
+
+interface PageProps {
+  params: {
+    repo: string;
+  };
+}
+
+/**
+ * The reader's highlights and notes across a guide (stored in their browser)
+ */
+export default async function GuideNotesPage({ params }: PageProps) {
+  const { repo: repoName } = params;
+
+  try {
+    const [repoInfo, chapters, guideInfo] = await Promise.all([
+      getRepoInfo(repoName),
+      getChapters(repoName),
+      getGuideInfo(repoName),
+    ]);
+    const guideTitle = guideInfo.title;
+
+    return (
+      <div className="max-w-4xl mx-auto">
+        <div className="mb-8">
+          <Link
+            href={`/${repoInfo.slug}`}
+            className="inline-flex items-center text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-300 transition-colors mb-6"
+          >
+            <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+            Back to guide
+          </Link>
+          <h1 className="text-4xl font-bold text-gray-900 dark:text-white mb-3">My notes</h1>
+          <p className="text-gray-600 dark:text-gray-400">
+            Highlights and notes you made in {guideTitle}. They are saved in this browser.
+          </p>
+        </div>
+
+        <GuideNotes
+          repoName={repoInfo.slug}
+          chapters={chapters.map((chapter) => ({ slug: chapter.slug, title: chapter.title }))}
+        />
+      </div>
+    );
+  } catch (error) {
+    notFound();
+  }
+}
+
+export async function generateStaticParams() {
+  const { getRepositoriesWithDocs } = await import('@/lib/github');
+  const repos = await getRepositoriesWithDocs();
+  return repos.map((repo) => ({
+    repo: repo.slug,
+  }));
+}
@@ -1,5 +1,13 @@
-import { getRepoInfo, getChapters, getFileContent, getMainReadme, parseDocsReadmeForRoadmapTree } from '@/lib/github';
-import { parseReadme } from '@/lib/readme-parser';
+import {
+  getRepoInfo,
+  getChapters,
+  getGuideInfo,
+  getGuideManifest,
+  getMainReadme,
+  getLinkContext,
+  getBlobUrl,
+  parseDocsReadmeForRoadmapTree,
+} from '@/lib/github';
 import { MarkdownRenderer } from '@/components/MarkdownRenderer';
 import GuideTabs from '@/components/GuideTabs';
 import Link from 'next/link';
@@ -17,26 +25,13 @@ export default async function GuidePage({ params }: PageProps) {
   const { repo: repoName } = params;
 
   try {
-    const [repoInfo, chapters] = await Promise.all([
+    const [repoInfo, chapters, guideInfo, manifest] = await Promise.all([
       getRepoInfo(repoName),
       getChapters(repoName),
+      getGuideInfo(repoName),
+      getGuideManifest(repoName),
     ]);
-
-    // Fetch and parse README for title and description
-    let readmeTitle = repoInfo.name;
-    let readmeDescription = repoInfo.description;
-
-    try {
-      const readmeContent = await getFileContent(repoName, 'README.md', repoInfo.default_branch);
-      if (readmeContent) {
-        const readmeData = parseReadme(readmeContent, repoName);
-        readmeTitle = readmeData.title;
-        readmeDescription = readmeData.description || repoInfo.description;
-      }
-    } catch (error) {
-      // Fallback to repo name and description if README fetch fails
-      console.error(`Error fetching README for ${repoName}:`, error);
-    }
+    const { title: readmeTitle, description: readmeDescription } = guideInfo;
 
     // Fetch main README for Description tab
     const mainReadme = await getMainReadme(repoName);
@@ -50,7 +45,7 @@ export default async function GuidePage({ params }: PageProps) {
         <MarkdownRenderer
           content={mainReadme}
           repoName={repoName}
-          branch={repoInfo.default_branch}
+          linkContext={await getLinkContext(repoName, 'README.md')}
           skipFirstHeading={true}
         />
       </div>
@@ -76,11 +71,36 @@ export default async function GuidePage({ params }: PageProps) {
           )}
         </div>
 
+        {manifest && manifest.assets.length > 0 && (
+          <section className="mb-8" aria-labelledby="guide-resources">
+            <h2 id="guide-resources" className="text-sm font-semibold uppercase tracking-wide text-gray-500 mb-3">
+              Resources
+            </h2>
+            <ul className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {manifest.assets.map((asset) => (
+                <li key={asset.path}>
+                  <a
+                    href={getBlobUrl(repoInfo.owner, repoInfo.name, repoInfo.ref, asset.path)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="block p-4 rounded-xl bg-white dark:bg-[#171717] border border-gray-200 dark:border-[#262626] hover:border-blue-500/50 transition-colors"
+                  >
+                    <div className="font-medium text-gray-900 dark:text-white">{asset.title}</div>
+                    {asset.description && <div className="text-sm text-gray-600 dark:text-gray-400">{asset.description}</div>}
+                    <div className="mt-1 text-xs font-mono text-gray-500">{asset.path}</div>
+                  </a>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
         {/* Tabbed Content */}
         <GuideTabs
           descriptionContent={descriptionContent}
           roadmapTree={roadmapTree}
           repoName={repoName}
+          chapters={chapters.map(({ slug, title }) => ({ slug, title }))}
         />
       </div>
     );
@@ -93,6 +113,6 @@ export async function generateStaticParams() {
   const { getRepositoriesWithDocs } = await import('@/lib/github');
   const repos = await getRepositoriesWithDocs();
   return repos.map((repo) => ({
-    repo: repo.name,
+    repo: repo.slug,
   }));
 }
@@ -0,0 +1,96 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { getBlobUrl, getRepoInfo } from '@/lib/github';
+import { checkGuideLinks, LinkIssueKind, LINK_ISSUE_LABELS } from '@/lib/link-checker';
+
+export const revalidate = 3600;
+
+export const metadata: Metadata = {
+  robots: { index: false },
+};
+
+interface PageProps {
+  params: {
+    repo: string;
+  };
+}
+
+const KIND_STYLES: Record<LinkIssueKind, string> = {
+  'broken-link': 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400',
+  'missing-image': 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400',
+  'missing-anchor': 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400',
+  'unmatched-roadmap-entry': 'bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-400',
+  'unlisted-chapter': 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400',
+  'invalid-manifest': 'bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-400',
+  'broken-snippet': 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400',
+};
+
+/**
+ * Maintainer view of the link checker (same results as `npm run check-links`)
+ */
+export default async function GuideReportPage({ params }: PageProps) {
+  const { repo: repoName } = params;
+
+  try {
+    const [repoInfo, report] = await Promise.all([getRepoInfo(repoName), checkGuideLinks(repoName)]);
+
+    return (
+      <div className="max-w-5xl mx-auto">
+        <div className="mb-8">
+          <Link
+            href={`/${repoInfo.slug}`}
+            className="inline-flex items-center text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-300 transition-colors mb-6"
+          >
+            <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+            Back to guide
+          </Link>
+          <h1 className="text-4xl font-bold text-gray-900 dark:text-white mb-3">Link report</h1>
+          <p className="text-gray-600 dark:text-gray-400">
+            {repoInfo.full_name}@{repoInfo.ref}: {report.checkedFiles} files checked,{' '}
+            {report.issues.length === 0 ? 'no broken references found.' : `${report.issues.length} issue(s) found.`}
+          </p>
+        </div>
+
+        {report.issues.length > 0 && (
+          <ul className="divide-y divide-gray-200 dark:divide-[#262626] border border-gray-200 dark:border-[#262626] rounded-lg">
+            {report.issues.map((issue, index) => (
+              <li key={index} className="p-4 flex flex-col gap-1 sm:flex-row sm:items-start sm:gap-4">
+                <span className={`shrink-0 px-2 py-0.5 text-xs font-medium rounded ${KIND_STYLES[issue.kind]}`}>
+                  {LINK_ISSUE_LABELS[issue.kind]}
+                </span>
+                <div className="min-w-0">
+                  <a
+                    href={`${getBlobUrl(repoInfo.owner, repoInfo.name, repoInfo.ref, issue.file)}${issue.line ? `#L${issue.line}` : ''}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="font-mono text-sm text-blue-600 dark:text-blue-400 hover:underline break-all"
+                  >
+                    {issue.file}
+                    {issue.line ? `:${issue.line}` : ''}
+                  </a>
+                  <p className="text-sm text-gray-700 dark:text-gray-300">{issue.message}</p>
+                  {issue.target && (
+                    <p className="font-mono text-xs text-gray-500 dark:text-gray-500 break-all">{issue.target}</p>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    );
+  } catch (error) {
+    notFound();
+  }
+}
+
+export async function generateStaticParams() {
+  const { getRepositoriesWithDocs } = await import('@/lib/github');
+  const repos = await getRepositoriesWithDocs();
+  return repos.map((repo) => ({
+    repo: repo.slug,
+  }));
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { syncConfig } from '@/config/sync';
+import { LEARNER_DATA_FORMAT, LearnerDataExport } from '@/lib/learner-data';
+import { isValidSyncCode } from '@/lib/progress-sync';
+import { getSyncStorage } from '@/lib/sync-storage';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET  /api/progress              -> { enabled }
+ * GET  /api/progress?code=XXXX-…  -> the stored learner data with its ETag, or 404
+ * PUT  /api/progress?code=XXXX-…  -> replaces it with the (already merged) body
+ *
+ * PUT must send `If-Match` with the ETag it merged with, or `If-None-Match: *`
+ * when nothing was stored yet; if another browser saved in between, it gets a
+ * 412 and merges again instead of overwriting that browser's changes.
+ */
+export async function GET(request: NextRequest) {
+  const code = request.nextUrl.searchParams.get('code');
+  if (!code) {
+    return NextResponse.json({ enabled: syncConfig.enabled });
+  }
+
+  const error = checkRequest(code);
+  if (error) return error;
+
+  try {
+    const stored = await getSyncStorage().read(code);
+    if (!stored) {
+      return NextResponse.json({ error: 'Nothing synced with this code yet' }, { status: 404 });
+    }
+    return NextResponse.json(stored.document, { headers: { 'cache-control': 'no-store', etag: `"${stored.version}"` } });
+  } catch (err) {
+    console.error('Error reading synced progress:', err);
+    return NextResponse.json({ error: 'Could not read synced progress' }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  const code = request.nextUrl.searchParams.get('code');
+  const error = checkRequest(code);
+  if (error) return error;
+
+  const ifMatch = request.headers.get('if-match');
+  if (!ifMatch && request.headers.get('if-none-match') !== '*') {
+    return NextResponse.json({ error: 'Send If-Match with the ETag of the merged copy, or If-None-Match: *' }, { status: 428 });
+  }
+  const expectedVersion = ifMatch ? ifMatch.replace(/^W\//, '').replace(/"/g, '') : null;
+
+  const body = await request.text();
+  if (Buffer.byteLength(body) > syncConfig.maxBytes) {
+    return NextResponse.json({ error: 'Progress data is too large' }, { status: 413 });
+  }
+
+  let document: LearnerDataExport;
+  try {
+    document = JSON.parse(body);
+  } catch {
+    return NextResponse.json({ error: 'Body must be JSON' }, { status: 400 });
+  }
+  if (document?.format !== LEARNER_DATA_FORMAT || typeof document.data !== 'object' || document.data === null) {
+    return NextResponse.json({ error: 'Body is not a learner data export' }, { status: 400 });
+  }
+
+  try {
+    // Codes are made up by browsers, so cap how many anyone can create
+    const storage = getSyncStorage();
+    if (!expectedVersion && !(await storage.read(code!)) && (await storage.count()) >= syncConfig.maxDocuments) {
+      return NextResponse.json({ error: 'No room for new sync codes on this server' }, { status: 507 });
+    }
+    const version = await storage.write(code!, document, expectedVersion);
+    if (!version) {
+      return NextResponse.json({ error: 'Synced progress changed since it was read' }, { status: 412 });
+    }
+    return new NextResponse(null, { status: 204, headers: { etag: `"${version}"` } });
+  } catch (err) {
+    console.error('Error saving synced progress:', err);
+    return NextResponse.json({ error: 'Could not save progress' }, { status: 500 });
+  }
+}
+
+function checkRequest(code: string | null): NextResponse | null {
+  if (!syncConfig.enabled) {
+    return NextResponse.json({ error: 'Progress sync is disabled' }, { status: 404 });
+  }
+  if (!code || !isValidSyncCode(code)) {
+    return NextResponse.json({ error: 'Invalid sync code' }, { status: 400 });
+  }
+  return null;
+}
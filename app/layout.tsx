@@ -5,6 +5,7 @@ import { ThemeProvider } from '@/components/ThemeProvider';
 import Header from '@/components/Header';
 import Footer from '@/components/Footer';
 import { SkipToContent } from '@/components/SkipToContent';
+import ProgressSync from '@/components/ProgressSync';
 
 export const metadata: Metadata = {
   title: 'Implement From Scratch',
@@ -33,6 +34,7 @@ export default function RootLayout({ children }: RootLayoutProps): React.JSX.Ele
             {children}
           </main>
           <Footer />
+          <ProgressSync />
         </ThemeProvider>
         <Analytics />
       </body>
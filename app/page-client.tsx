@@ -1,16 +1,67 @@
 'use client';
 
-import { useState, useMemo } from 'react';
+import { Suspense, useCallback, useEffect, useMemo, useState } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
 import GuideCard from '@/components/GuideCard';
+import ContinueLearning from '@/components/ContinueLearning';
+import GuideFacets from '@/components/GuideFacets';
+import GuideListingControls from '@/components/GuideListingControls';
 import { Repository } from '@/lib/github';
+import { createEmptyTaxonomy, matchesFacets, parseFacetSelection, writeFacetSelection, TaxonomyFacet } from '@/lib/guide-taxonomy';
+import {
+  groupGuides,
+  parseListingOptions,
+  sortGuides,
+  writeListingOptions,
+  GuideListingOptions,
+  GuideReaderState,
+} from '@/lib/guide-listing';
+import { countCompletedChapters } from '@/lib/progress-store';
+import { useAllGuideProgress } from '@/lib/use-guide-progress';
 
 interface HomePageClientProps {
   repos: Repository[];
+  /** Chapters of each guide in reading order, keyed by guide slug */
+  chapters: Record<string, Array<{ slug: string; title: string }>>;
 }
 
-export default function HomePageClient({ repos }: HomePageClientProps) {
+// Reports the query string to the page. useSearchParams needs a Suspense
+// boundary on a static page, so it lives in its own component to keep the
+// guide list itself prerendered.
+function SearchParamsListener({ onChange }: { onChange: (params: URLSearchParams) => void }) {
+  const searchParams = useSearchParams();
+  useEffect(() => {
+    onChange(new URLSearchParams(searchParams.toString()));
+  }, [searchParams, onChange]);
+  return null;
+}
+
+export default function HomePageClient({ repos, chapters }: HomePageClientProps) {
+  const router = useRouter();
+  const pathname = usePathname();
   const [searchQuery, setSearchQuery] = useState('');
-  const [selectedFilter, setSelectedFilter] = useState<string | null>(null);
+  const [params, setParams] = useState(() => new URLSearchParams());
+  const selection = useMemo(() => parseFacetSelection(params), [params]);
+  const listing = useMemo(() => parseListingOptions(params), [params]);
+  const { progress, isHydrated } = useAllGuideProgress();
+
+  const readerState = useMemo(
+    () =>
+      Object.fromEntries(
+        repos.map((repo): [string, GuideReaderState] => {
+          const guideProgress = progress[repo.slug];
+          const slugs = (chapters[repo.slug] || []).map((chapter) => chapter.slug);
+          return [
+            repo.slug,
+            {
+              completedChapters: guideProgress ? countCompletedChapters(guideProgress, slugs) : 0,
+              lastReadAt: guideProgress?.updatedAt || 0,
+            },
+          ];
+        })
+      ),
+    [repos, chapters, progress]
+  );
 
   const filteredRepos = useMemo(() => {
     let filtered = repos;
@@ -22,24 +73,44 @@ export default function HomePageClient({ repos }: HomePageClientProps) {
           repo.name.toLowerCase().includes(query) ||
           repo.description?.toLowerCase().includes(query) ||
           repo.readmeTitle?.toLowerCase().includes(query) ||
-          repo.readmeDescription?.toLowerCase().includes(query)
+          repo.readmeDescription?.toLowerCase().includes(query) ||
+          [...(repo.taxonomy?.languages || []), ...(repo.taxonomy?.topics || [])].some((tag) =>
+            tag.toLowerCase().includes(query)
+          )
       );
     }
 
-    if (selectedFilter) {
-      filtered = filtered.filter((repo) => {
-        const name = repo.name.toLowerCase();
-        const desc = repo.description?.toLowerCase() || '';
-        const readmeDesc = repo.readmeDescription?.toLowerCase() || '';
-        const filterLower = selectedFilter.toLowerCase();
-        return name.includes(filterLower) || desc.includes(filterLower) || readmeDesc.includes(filterLower);
-      });
-    }
+    filtered = filtered.filter((repo) => matchesFacets(repo.taxonomy || createEmptyTaxonomy(), selection));
+
+    return sortGuides(filtered, listing.sort, readerState);
+  }, [repos, searchQuery, selection, listing.sort, readerState]);
 
-    return filtered;
-  }, [repos, searchQuery, selectedFilter]);
+  const groups = useMemo(() => groupGuides(filteredRepos, listing.group), [filteredRepos, listing.group]);
 
-  const availableFilters = ['C', 'C++', 'Rust', 'Systems', 'Shell', 'Unix', 'Linux'];
+  const updateParams = (next: URLSearchParams) => {
+    const query = next.toString();
+    router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false });
+  };
+
+  const toggleFacet = (facet: TaxonomyFacet, value: string) => {
+    const values = selection[facet];
+    updateParams(
+      writeFacetSelection(params, {
+        ...selection,
+        [facet]: values.includes(value) ? values.filter((v) => v !== value) : [...values, value],
+      })
+    );
+  };
+
+  const clearFacets = () => {
+    updateParams(writeFacetSelection(params, parseFacetSelection(new URLSearchParams())));
+  };
+
+  const changeListing = (options: GuideListingOptions) => {
+    updateParams(writeListingOptions(params, options));
+  };
+
+  const handleParamsChange = useCallback((next: URLSearchParams) => setParams(next), []);
 
   return (
     <div className="max-w-7xl mx-auto">
@@ -50,6 +121,8 @@ export default function HomePageClient({ repos }: HomePageClientProps) {
         </p>
       </div>
 
+      {isHydrated && <ContinueLearning repos={repos} chapters={chapters} progress={progress} />}
+
       <div className="mb-8">
         <div className="relative mb-6">
           <div className="absolute left-4 top-1/2 transform -translate-y-1/2 text-gray-500 dark:text-gray-400">
@@ -66,27 +139,30 @@ export default function HomePageClient({ repos }: HomePageClientProps) {
           />
         </div>
 
-        <div className="flex flex-wrap items-center gap-3">
-          <span className="text-sm text-gray-600 dark:text-gray-400">Filter by:</span>
-          {availableFilters.map((filter) => (
-            <button
-              key={filter}
-              onClick={() => setSelectedFilter(selectedFilter === filter ? null : filter)}
-              className={`px-4 py-1.5 rounded-lg text-sm font-medium transition-colors ${
-                selectedFilter === filter
-                  ? 'bg-blue-500 text-white'
-                  : 'bg-gray-100 dark:bg-[#171717] text-gray-700 dark:text-gray-300 border border-gray-200 dark:border-[#262626] hover:border-gray-300 dark:hover:border-[#404040]'
-              }`}
-            >
-              {filter}
-            </button>
-          ))}
+        <Suspense fallback={null}>
+          <SearchParamsListener onChange={handleParamsChange} />
+        </Suspense>
+        <GuideFacets repos={repos} selection={selection} onToggle={toggleFacet} onClear={clearFacets} />
+        <div className="mt-4">
+          <GuideListingControls options={listing} onChange={changeListing} />
         </div>
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-        {filteredRepos.map((repo) => (
-          <GuideCard key={repo.name} repo={repo} />
+      <div className="space-y-10">
+        {groups.map((group) => (
+          <section key={group.label} aria-label={group.label || undefined}>
+            {group.label && (
+              <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
+                {group.label}
+                <span className="ml-2 text-sm font-normal text-gray-500">{group.repos.length}</span>
+              </h2>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {group.repos.map((repo) => (
+                <GuideCard key={repo.slug} repo={repo} completedChapters={readerState[repo.slug].completedChapters} />
+              ))}
+            </div>
+          </section>
         ))}
       </div>
 
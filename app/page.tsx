@@ -1,9 +1,18 @@
-import { getRepositoriesWithDocs } from '@/lib/github';
+import { getChapters, getRepositoriesWithDocs } from '@/lib/github';
 import HomePageClient from './page-client';
 
 export const revalidate = 3600;
 
 export default async function HomePage() {
   const repos = await getRepositoriesWithDocs();
-  return <HomePageClient repos={repos} />;
+  // Chapter titles for the "Continue learning" links
+  const chapters = Object.fromEntries(
+    await Promise.all(
+      repos.map(async (repo) => [
+        repo.slug,
+        (await getChapters(repo.slug)).map((chapter) => ({ slug: chapter.slug, title: chapter.title })),
+      ])
+    )
+  );
+  return <HomePageClient repos={repos} chapters={chapters} />;
 }
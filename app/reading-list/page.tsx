@@ -0,0 +1,42 @@
+import type { Metadata } from 'next';
+import { getChapters, getRepositoriesWithDocs } from '@/lib/github';
+import ReadingList from '@/components/ReadingList';
+
+export const revalidate = 3600;
+
+export const metadata: Metadata = {
+  title: 'Reading list',
+  robots: { index: false },
+};
+
+/**
+ * The reader's bookmarks across all guides (stored in their browser)
+ */
+export default async function ReadingListPage() {
+  const repos = await getRepositoriesWithDocs();
+  const guides = await Promise.all(
+    repos.map(async (repo) => {
+      let chapters: Array<{ slug: string; title: string }> = [];
+      try {
+        chapters = (await getChapters(repo.slug)).map((chapter) => ({ slug: chapter.slug, title: chapter.title }));
+      } catch (error) {
+        // Bookmarks in this guide still show, without chapter titles
+        console.error(`Error listing chapters for ${repo.full_name}:`, error);
+      }
+      return { slug: repo.slug, title: repo.readmeTitle || repo.name, chapters };
+    })
+  );
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <div className="mb-8">
+        <h1 className="text-4xl font-bold text-gray-900 dark:text-white mb-3">Reading list</h1>
+        <p className="text-gray-600 dark:text-gray-400">
+          Chapters and sections you bookmarked. They are saved in this browser.
+        </p>
+      </div>
+
+      <ReadingList guides={guides} />
+    </div>
+  );
+}
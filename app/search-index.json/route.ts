@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server';
+import { buildSearchIndex } from '@/lib/search-index';
+
+// Generated at build time and served as a static file, refreshed like the pages
+export const dynamic = 'force-static';
+export const revalidate = 3600;
+
+export async function GET() {
+  return NextResponse.json(await buildSearchIndex());
+}
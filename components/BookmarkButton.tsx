@@ -0,0 +1,76 @@
+'use client';
+
+import { getBookmarkId, setBookmarked } from '@/lib/bookmarks-store';
+import { useBookmarks } from '@/lib/use-bookmarks';
+
+interface BookmarkButtonProps {
+  repoName: string;
+  chapterSlug: string;
+  /** Heading to bookmark; without it the whole chapter is bookmarked */
+  sectionId?: string;
+}
+
+/**
+ * Bookmark toggle for a chapter (in its header) or a section (next to its heading)
+ */
+export default function BookmarkButton({ repoName, chapterSlug, sectionId }: BookmarkButtonProps) {
+  const { bookmarks, isHydrated } = useBookmarks();
+  const id = getBookmarkId(repoName, chapterSlug, sectionId);
+  const bookmarked = bookmarks.some((bookmark) => bookmark.id === id);
+
+  const handleClick = (event: React.MouseEvent<HTMLButtonElement>) => {
+    // The heading's own text, without the controls around it
+    const section = sectionId
+      ? { id: sectionId, text: event.currentTarget.closest('h2, h3')?.textContent?.trim() || sectionId }
+      : undefined;
+    setBookmarked(repoName, chapterSlug, section, !bookmarked);
+  };
+
+  const label = bookmarked
+    ? sectionId ? 'Remove section bookmark' : 'Remove bookmark'
+    : sectionId ? 'Bookmark this section' : 'Bookmark this chapter';
+
+  const icon = (
+    <svg className="w-4 h-4" fill={bookmarked ? 'currentColor' : 'none'} stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+    </svg>
+  );
+
+  if (sectionId) {
+    return (
+      <button
+        type="button"
+        onClick={handleClick}
+        disabled={!isHydrated}
+        className={`ml-1 inline-block align-middle transition-opacity ${
+          bookmarked
+            ? 'text-yellow-500'
+            : 'text-gray-400 hover:text-yellow-500 opacity-0 group-hover:opacity-100 focus:opacity-100'
+        }`}
+        aria-label={label}
+        aria-pressed={bookmarked}
+        title={label}
+      >
+        {icon}
+      </button>
+    );
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      disabled={!isHydrated}
+      className={`inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium border transition-colors ${
+        bookmarked
+          ? 'border-yellow-500/40 bg-yellow-500/10 text-yellow-600 dark:text-yellow-400'
+          : 'border-gray-200 dark:border-[#262626] text-gray-600 dark:text-gray-400 hover:border-gray-300 dark:hover:border-[#404040]'
+      }`}
+      aria-pressed={bookmarked}
+      title={label}
+    >
+      {icon}
+      {bookmarked ? 'Bookmarked' : 'Bookmark'}
+    </button>
+  );
+}
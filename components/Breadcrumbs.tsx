@@ -48,7 +48,7 @@ export function Breadcrumbs({ items }: BreadcrumbsProps): React.JSX.Element {
                 const isLast = index === items.length - 1;
 
                 return (
-                    <React.Fragment key={item.href}>
+                    <React.Fragment key={`${index}-${item.href}`}>
                         {/* Chevron separator */}
                         <svg
                             className="w-4 h-4 text-gray-400 dark:text-gray-600 flex-shrink-0"
@@ -0,0 +1,413 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { addAnnotation, deleteAnnotation, updateAnnotationNote, Annotation } from '@/lib/annotations-store';
+import { anchorToRange, describeRange, TextQuoteAnchor } from '@/lib/text-anchor';
+import { useAnnotations } from '@/lib/use-annotations';
+
+interface ChapterAnnotationsProps {
+  repoName: string;
+  chapterSlug: string;
+}
+
+// Names used in the ::highlight() rules in globals.css
+const HIGHLIGHT = 'annotation';
+const ACTIVE_HIGHLIGHT = 'annotation-active';
+
+const NOTE_HASH_PREFIX = '#note-';
+
+/** Pause after DOM changes before checking whether the chapter text changed */
+const CONTENT_CHECK_DELAY_MS = 150;
+
+function supportsHighlights(): boolean {
+  return typeof CSS !== 'undefined' && 'highlights' in CSS;
+}
+
+function scrollToRange(range: Range) {
+  const rect = range.getBoundingClientRect();
+  window.scrollTo({ top: window.scrollY + rect.top - window.innerHeight / 3, behavior: 'smooth' });
+}
+
+// Text position under the pointer, for finding the highlight that was clicked
+function caretFromPoint(x: number, y: number): { node: Node; offset: number } | null {
+  if (document.caretPositionFromPoint) {
+    const position = document.caretPositionFromPoint(x, y);
+    return position && { node: position.offsetNode, offset: position.offset };
+  }
+  const range = document.caretRangeFromPoint?.(x, y);
+  return range ? { node: range.startContainer, offset: range.startOffset } : null;
+}
+
+/**
+ * Highlights and notes on the chapter text. Selecting text offers to highlight
+ * it or attach a note; notes are listed in a slide-over panel. Annotations are
+ * anchored by quote and context (lib/text-anchor.ts) and re-attached whenever
+ * the rendered chapter changes; ones whose text is gone are listed as detached.
+ */
+export default function ChapterAnnotations({ repoName, chapterSlug }: ChapterAnnotationsProps) {
+  const { annotations, isHydrated } = useAnnotations(repoName, chapterSlug);
+  const [root, setRoot] = useState<HTMLElement | null>(null);
+  const [contentVersion, setContentVersion] = useState(0);
+  // Where each annotation is in the text, and what that was worked out from
+  const [anchored, setAnchored] = useState<{ root: HTMLElement | null; annotations: Annotation[]; ranges: Map<string, Range> }>(
+    () => ({ root: null, annotations: [], ranges: new Map() })
+  );
+  const ranges = anchored.ranges;
+  const [pending, setPending] = useState<{ anchor: TextQuoteAnchor; top: number; left: number } | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const hashHandled = useRef(false);
+
+  // The chapter is rendered client-side after mount; watch for it to appear, and
+  // re-anchor only when its text changes, not on every checkbox or toggle re-render
+  useEffect(() => {
+    const article = document.getElementById('main-content');
+    if (!article) return;
+
+    let timer = 0;
+    let lastRoot: HTMLElement | null = null;
+    let lastText: string | null = null;
+    const check = () => {
+      const current = article.querySelector<HTMLElement>('[data-chapter-content]');
+      const text = current?.textContent ?? null;
+      if (current === lastRoot && text === lastText) return;
+      lastRoot = current;
+      lastText = text;
+      setRoot(current);
+      setContentVersion((version) => version + 1);
+    };
+    const update = () => {
+      window.clearTimeout(timer);
+      timer = window.setTimeout(check, CONTENT_CHECK_DELAY_MS);
+    };
+    check();
+
+    const observer = new MutationObserver(update);
+    observer.observe(article, { childList: true, subtree: true, characterData: true });
+    return () => {
+      observer.disconnect();
+      window.clearTimeout(timer);
+    };
+  }, []);
+
+  // Re-anchor every annotation against the current text, whenever it or the rendered chapter changes
+  useEffect(() => {
+    const found = new Map<string, Range>();
+    if (root) {
+      annotations.forEach((annotation) => {
+        const range = anchorToRange(root, annotation.anchor);
+        if (range) found.set(annotation.id, range);
+      });
+    }
+    setAnchored({ root, annotations, ranges: found });
+  }, [root, contentVersion, annotations]);
+
+  // Paint highlights
+  useEffect(() => {
+    if (!supportsHighlights()) return;
+    const all = Array.from(ranges.values());
+    const active = activeId ? ranges.get(activeId) : undefined;
+    CSS.highlights.set(HIGHLIGHT, new Highlight(...all));
+    CSS.highlights.set(ACTIVE_HIGHLIGHT, active ? new Highlight(active) : new Highlight());
+    return () => {
+      CSS.highlights.delete(HIGHLIGHT);
+      CSS.highlights.delete(ACTIVE_HIGHLIGHT);
+    };
+  }, [ranges, activeId]);
+
+  // Links from the notes page land on #note-<id>
+  useEffect(() => {
+    if (hashHandled.current || !root || !isHydrated || anchored.root !== root || anchored.annotations !== annotations) return;
+    hashHandled.current = true;
+    if (!window.location.hash.startsWith(NOTE_HASH_PREFIX)) return;
+
+    const id = decodeURIComponent(window.location.hash.slice(NOTE_HASH_PREFIX.length));
+    setActiveId(id);
+    setIsOpen(true);
+    const range = ranges.get(id);
+    if (range) scrollToRange(range);
+  }, [anchored, ranges, annotations, isHydrated, root]);
+
+  // Offer to annotate a selection made inside the chapter text
+  useEffect(() => {
+    if (!root) return;
+
+    const checkSelection = () => {
+      const selection = window.getSelection();
+      if (!selection || selection.isCollapsed || selection.rangeCount === 0) {
+        setPending(null);
+        return;
+      }
+      const range = selection.getRangeAt(0);
+      const anchor = describeRange(root, range);
+      if (!anchor) {
+        setPending(null);
+        return;
+      }
+      const rect = range.getBoundingClientRect();
+      setPending({ anchor, top: rect.top, left: rect.left + rect.width / 2 });
+    };
+    // Let the selection settle after the click or key press
+    const onRelease = () => setTimeout(checkSelection, 0);
+    const onSelectionChange = () => {
+      if (window.getSelection()?.isCollapsed) setPending(null);
+    };
+    const onScroll = () => setPending(null);
+
+    document.addEventListener('mouseup', onRelease);
+    document.addEventListener('keyup', onRelease);
+    document.addEventListener('selectionchange', onSelectionChange);
+    window.addEventListener('scroll', onScroll, { passive: true });
+    return () => {
+      document.removeEventListener('mouseup', onRelease);
+      document.removeEventListener('keyup', onRelease);
+      document.removeEventListener('selectionchange', onSelectionChange);
+      window.removeEventListener('scroll', onScroll);
+    };
+  }, [root]);
+
+  // Clicking highlighted text opens its note
+  useEffect(() => {
+    if (!root) return;
+
+    const onClick = (event: MouseEvent) => {
+      if (!window.getSelection()?.isCollapsed) return;
+      const caret = caretFromPoint(event.clientX, event.clientY);
+      if (!caret || !root.contains(caret.node)) return;
+
+      for (const [id, range] of Array.from(ranges.entries())) {
+        if (range.isPointInRange(caret.node, caret.offset)) {
+          setActiveId(id);
+          setIsOpen(true);
+          return;
+        }
+      }
+    };
+
+    root.addEventListener('click', onClick);
+    return () => root.removeEventListener('click', onClick);
+  }, [root, ranges]);
+
+  const annotate = (withNote: boolean) => {
+    if (!pending) return;
+    const annotation = addAnnotation(repoName, chapterSlug, pending.anchor);
+    window.getSelection()?.removeAllRanges();
+    setPending(null);
+    setActiveId(annotation.id);
+    if (withNote) {
+      setEditingId(annotation.id);
+      setIsOpen(true);
+    }
+  };
+
+  const focusAnnotation = useCallback(
+    (id: string) => {
+      setActiveId(id);
+      const range = ranges.get(id);
+      if (range) scrollToRange(range);
+    },
+    [ranges]
+  );
+
+  return (
+    <>
+      {pending && (
+        <div
+          className="fixed z-40 -translate-x-1/2 -translate-y-full flex rounded-lg border border-gray-200 dark:border-[#262626] bg-white dark:bg-[#171717] shadow-lg text-sm overflow-hidden"
+          style={{ top: pending.top - 8, left: pending.left }}
+          // Keep the selection while clicking the buttons
+          onMouseDown={(e) => e.preventDefault()}
+        >
+          <button
+            type="button"
+            onClick={() => annotate(false)}
+            className="px-3 py-1.5 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-[#262626] transition-colors"
+          >
+            Highlight
+          </button>
+          <button
+            type="button"
+            onClick={() => annotate(true)}
+            className="px-3 py-1.5 border-l border-gray-200 dark:border-[#262626] text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-[#262626] transition-colors"
+          >
+            Add note
+          </button>
+        </div>
+      )}
+
+      {isHydrated && !isOpen && (
+        <button
+          type="button"
+          onClick={() => setIsOpen(true)}
+          className="fixed bottom-6 right-6 z-40 flex items-center gap-2 px-4 py-2 rounded-full border border-gray-200 dark:border-[#262626] bg-white dark:bg-[#171717] shadow-lg text-sm font-medium text-gray-700 dark:text-gray-300 hover:border-gray-300 dark:hover:border-[#404040] transition-colors"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+          </svg>
+          Notes ({annotations.length})
+        </button>
+      )}
+
+      {isOpen && (
+        <aside
+          className="fixed top-16 right-0 bottom-0 z-40 w-full sm:w-96 flex flex-col border-l border-gray-200 dark:border-[#262626] bg-white dark:bg-[#0a0a0a] shadow-xl"
+          aria-label="Notes on this chapter"
+        >
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 dark:border-[#262626]">
+            <h2 className="text-sm font-semibold text-gray-900 dark:text-white">Notes on this chapter</h2>
+            <button
+              type="button"
+              onClick={() => {
+                setIsOpen(false);
+                setActiveId(null);
+              }}
+              className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
+              aria-label="Close notes"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-4 space-y-3">
+            {annotations.length === 0 ? (
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Select text in the chapter to highlight it or add a note.
+              </p>
+            ) : (
+              annotations.map((annotation) => (
+                <AnnotationItem
+                  key={annotation.id}
+                  annotation={annotation}
+                  isActive={annotation.id === activeId}
+                  isDetached={!!root && !ranges.has(annotation.id)}
+                  isEditing={annotation.id === editingId}
+                  onFocus={() => focusAnnotation(annotation.id)}
+                  onEdit={(editing) => setEditingId(editing ? annotation.id : null)}
+                  onSave={(note) => updateAnnotationNote(repoName, annotation.id, note)}
+                  onDelete={() => deleteAnnotation(repoName, annotation.id)}
+                />
+              ))
+            )}
+          </div>
+
+          <div className="px-4 py-3 border-t border-gray-200 dark:border-[#262626] text-sm">
+            <Link href={`/${repoName}/notes`} className="text-blue-600 dark:text-blue-400 hover:underline">
+              All notes in this guide →
+            </Link>
+          </div>
+        </aside>
+      )}
+    </>
+  );
+}
+
+interface AnnotationItemProps {
+  annotation: Annotation;
+  isActive: boolean;
+  isDetached: boolean;
+  isEditing: boolean;
+  onFocus: () => void;
+  onEdit: (editing: boolean) => void;
+  onSave: (note: string) => void;
+  onDelete: () => void;
+}
+
+function AnnotationItem({
+  annotation,
+  isActive,
+  isDetached,
+  isEditing,
+  onFocus,
+  onEdit,
+  onSave,
+  onDelete,
+}: AnnotationItemProps) {
+  const [draft, setDraft] = useState(annotation.note);
+  const itemRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (isActive) itemRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [isActive]);
+
+  useEffect(() => {
+    if (isEditing) setDraft(annotation.note);
+  }, [isEditing, annotation.note]);
+
+  return (
+    <div
+      ref={itemRef}
+      className={`rounded-lg border p-3 ${
+        isActive ? 'border-yellow-400 dark:border-yellow-500/60' : 'border-gray-200 dark:border-[#262626]'
+      }`}
+    >
+      <button
+        type="button"
+        onClick={onFocus}
+        disabled={isDetached}
+        className="block w-full text-left text-sm text-gray-600 dark:text-gray-400 border-l-2 border-yellow-400 pl-2 line-clamp-3 disabled:cursor-default"
+      >
+        {annotation.anchor.exact}
+      </button>
+      {isDetached && (
+        <p className="mt-1 text-xs text-orange-600 dark:text-orange-400">
+          This passage changed and can’t be found in the chapter anymore.
+        </p>
+      )}
+
+      {isEditing ? (
+        <div className="mt-2">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            rows={3}
+            autoFocus
+            placeholder="Write a note…"
+            className="w-full px-2 py-1.5 rounded border border-gray-300 dark:border-[#262626] bg-white dark:bg-[#0a0a0a] text-sm text-gray-900 dark:text-gray-100"
+            aria-label="Note"
+          />
+          <div className="mt-2 flex gap-2 text-sm">
+            <button
+              type="button"
+              onClick={() => {
+                onSave(draft.trim());
+                onEdit(false);
+              }}
+              className="px-3 py-1 rounded bg-blue-600 text-white hover:bg-blue-700 transition-colors"
+            >
+              Save
+            </button>
+            <button
+              type="button"
+              onClick={() => onEdit(false)}
+              className="px-3 py-1 rounded text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-[#171717] transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <>
+          {annotation.note && (
+            <p className="mt-2 text-sm text-gray-900 dark:text-gray-100 whitespace-pre-wrap">{annotation.note}</p>
+          )}
+          <div className="mt-2 flex gap-3 text-xs">
+            <button
+              type="button"
+              onClick={() => onEdit(true)}
+              className="text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              {annotation.note ? 'Edit note' : 'Add note'}
+            </button>
+            <button type="button" onClick={onDelete} className="text-red-600 dark:text-red-400 hover:underline">
+              Delete
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
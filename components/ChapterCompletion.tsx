@@ -0,0 +1,64 @@
+'use client';
+
+import Link from 'next/link';
+import { getChapterStatus, setChapterCompleted } from '@/lib/progress-store';
+import { useGuideProgress } from '@/lib/use-guide-progress';
+
+interface ChapterCompletionProps {
+  repoName: string;
+  chapterSlug: string;
+  nextChapter?: { slug: string; title: string } | null;
+}
+
+/**
+ * "Mark as complete" control shown after the chapter body.
+ * Completion is explicit: opening or scrolling a chapter never completes it.
+ */
+export default function ChapterCompletion({ repoName, chapterSlug, nextChapter }: ChapterCompletionProps) {
+  const { progress, isHydrated } = useGuideProgress(repoName);
+  const chapter = progress.chapters[chapterSlug];
+  const isCompleted = getChapterStatus(chapter) === 'completed';
+  const checkedSections = chapter?.checkedSections?.length || 0;
+
+  return (
+    <div className="mb-12 p-6 rounded-xl border border-gray-200 dark:border-[#262626] bg-gray-50 dark:bg-[#0f0f0f] flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+      <div>
+        <p className="font-semibold text-gray-900 dark:text-white">
+          {isCompleted ? 'Chapter completed' : 'Finished this chapter?'}
+        </p>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {isCompleted
+            ? 'It counts towards your progress in this guide.'
+            : checkedSections > 0
+              ? `${checkedSections} section${checkedSections === 1 ? '' : 's'} checked off so far.`
+              : 'Mark it as complete once your implementation works.'}
+        </p>
+      </div>
+      <div className="flex items-center gap-3">
+        <button
+          type="button"
+          disabled={!isHydrated}
+          onClick={() => setChapterCompleted(repoName, chapterSlug, !isCompleted)}
+          aria-pressed={isCompleted}
+          className={`inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium border transition-colors disabled:opacity-50 ${isCompleted
+            ? 'bg-green-500/10 text-green-600 dark:text-green-400 border-green-500/40 hover:bg-green-500/20'
+            : 'bg-blue-600 text-white border-blue-600 hover:bg-blue-700'
+            }`}
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+          </svg>
+          {isCompleted ? 'Completed' : 'Mark as complete'}
+        </button>
+        {isCompleted && nextChapter && (
+          <Link
+            href={`/${repoName}/${nextChapter.slug}`}
+            className="text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            Next: {nextChapter.title} →
+          </Link>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+'use client';
+
+import { Children, createContext, isValidElement, ReactNode, useRef, useState } from 'react';
+import { Tab } from '@headlessui/react';
+import { usePreferredCodeLanguage } from '@/lib/use-preferred-code-language';
+import type { CodeGroupTab } from '@/lib/remark-code-groups';
+
+interface CodeGroupProps {
+  tabs: CodeGroupTab[];
+  /** The grouped code blocks, one per tab */
+  children: ReactNode;
+}
+
+/** True inside a code group, whose tabs stand in for the code blocks' own language header */
+export const InCodeGroupContext = createContext(false);
+
+const tabKey = (tab: CodeGroupTab) => (tab.language || tab.label).toLowerCase();
+
+/**
+ * The same code in several languages, one tab each (see lib/remark-code-groups.ts).
+ * Picking a tab makes its language the reader's preference, which every code
+ * group in every guide then opens on.
+ */
+export default function CodeGroup({ tabs, children }: CodeGroupProps) {
+  const blocks = Children.toArray(children).filter(isValidElement);
+  const { preferred, setPreferred } = usePreferredCodeLanguage();
+  const [picked, setPicked] = useState<string | null>(null);
+  const tabListRef = useRef<HTMLDivElement>(null);
+
+  const keys = tabs.map(tabKey);
+  // Groups without the preferred language keep whatever was picked in them
+  const preferredIndex = preferred ? keys.indexOf(preferred) : -1;
+  const pickedIndex = picked ? keys.indexOf(picked) : -1;
+  const selectedIndex = preferredIndex !== -1 ? preferredIndex : Math.max(pickedIndex, 0);
+
+  const handleChange = (index: number) => {
+    // Other groups above may change height; keep this one where the reader is looking
+    const top = tabListRef.current?.getBoundingClientRect().top;
+    setPicked(keys[index]);
+    setPreferred(keys[index]);
+    requestAnimationFrame(() => {
+      const newTop = tabListRef.current?.getBoundingClientRect().top;
+      if (top !== undefined && newTop !== undefined) window.scrollBy(0, newTop - top);
+    });
+  };
+
+  return (
+    <div className="my-6">
+      <Tab.Group selectedIndex={selectedIndex} onChange={handleChange}>
+        <Tab.List
+          ref={tabListRef}
+          className="flex gap-1 overflow-x-auto px-2 pt-2 bg-gray-100 dark:bg-gray-800 border border-b-0 border-gray-200 dark:border-[#262626] rounded-t-xl"
+        >
+          {tabs.map((tab, index) => (
+            <Tab
+              key={index}
+              className={({ selected }) =>
+                `px-3 py-1.5 text-xs font-semibold rounded-t-md whitespace-nowrap transition-colors focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 ${
+                  selected
+                    ? 'bg-[#0d1117] text-white'
+                    : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
+                }`
+              }
+            >
+              {tab.label}
+            </Tab>
+          ))}
+        </Tab.List>
+        <Tab.Panels>
+          <InCodeGroupContext.Provider value={true}>
+            {blocks.map((block, index) => (
+              <Tab.Panel key={index}>{block}</Tab.Panel>
+            ))}
+          </InCodeGroupContext.Provider>
+        </Tab.Panels>
+      </Tab.Group>
+    </div>
+  );
+}
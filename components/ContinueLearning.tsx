@@ -0,0 +1,73 @@
+'use client';
+
+import Link from 'next/link';
+import { countCompletedChapters, getResumePoint, GuideProgress } from '@/lib/progress-store';
+import type { Repository } from '@/lib/github';
+
+interface ContinueLearningProps {
+  repos: Repository[];
+  /** Chapters of each guide in reading order, keyed by guide slug */
+  chapters: Record<string, Array<{ slug: string; title: string }>>;
+  /** Progress of every guide the reader has opened, keyed by guide slug */
+  progress: Record<string, GuideProgress>;
+}
+
+/**
+ * Homepage shortcut back into unfinished guides, most recently read first,
+ * each pointing at the chapter and section the reader left off at
+ */
+export default function ContinueLearning({ repos, chapters, progress }: ContinueLearningProps) {
+  const entries = repos
+    .map((repo) => {
+      const guideProgress = progress[repo.slug];
+      const guideChapters = chapters[repo.slug] || [];
+      if (!guideProgress) return null;
+
+      const chapterSlugs = guideChapters.map((chapter) => chapter.slug);
+      const resume = getResumePoint(guideProgress, chapterSlugs);
+      const chapter = resume && guideChapters.find((c) => c.slug === resume.slug);
+      if (!resume || !chapter) return null;
+
+      return {
+        repo,
+        chapter,
+        section: resume.section,
+        completed: countCompletedChapters(guideProgress, chapterSlugs),
+        total: guideChapters.length,
+        updatedAt: guideProgress.updatedAt,
+      };
+    })
+    .filter((entry): entry is NonNullable<typeof entry> => entry !== null)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+
+  if (entries.length === 0) return null;
+
+  return (
+    <section className="mb-12" aria-labelledby="continue-learning">
+      <h2 id="continue-learning" className="text-2xl font-bold text-gray-900 dark:text-white mb-4">
+        Continue learning
+      </h2>
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+        {entries.map(({ repo, chapter, section, completed, total }) => (
+          <Link
+            key={repo.slug}
+            href={`/${repo.slug}/${chapter.slug}${section ? `#${section.id}` : ''}`}
+            className="group block p-5 rounded-xl bg-white dark:bg-[#171717] border border-gray-200 dark:border-[#262626] hover:border-blue-500/50 transition-colors"
+          >
+            <div className="text-xs font-medium text-gray-500 dark:text-gray-500 mb-1">{repo.readmeTitle || repo.name}</div>
+            <div className="font-semibold text-gray-900 dark:text-white group-hover:text-blue-400 transition-colors truncate">
+              {chapter.title}
+            </div>
+            {section && <div className="text-sm text-gray-600 dark:text-gray-400 truncate">› {section.text}</div>}
+            <div className="mt-3 flex items-center justify-between text-xs text-gray-500 dark:text-gray-500">
+              <span>
+                {completed} of {total} chapters
+              </span>
+              <span className="text-blue-600 dark:text-blue-400 font-medium">Resume →</span>
+            </div>
+          </Link>
+        ))}
+      </div>
+    </section>
+  );
+}
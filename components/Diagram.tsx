@@ -0,0 +1,111 @@
+'use client';
+
+import { useEffect, useId, useState } from 'react';
+import { useTheme } from './ThemeProvider';
+import type { DiagramKind } from '@/lib/rehype-diagrams';
+
+interface DiagramProps {
+  kind: DiagramKind;
+  source: string;
+  /** SVG rendered at build time (Graphviz and ASCII art, see lib/rehype-diagrams.ts) */
+  svg?: string;
+  /** Why the diagram could not be rendered at build time */
+  error?: string;
+}
+
+const LABELS: Record<DiagramKind, string> = {
+  mermaid: 'Mermaid',
+  dot: 'Graphviz',
+  ascii: 'Diagram',
+};
+
+/**
+ * Diagram from a ```mermaid or ```dot fence or ASCII art. Mermaid is loaded on
+ * first use and re-rendered when the theme changes; anything that fails to
+ * render, and ASCII art that isn't converted, is shown as its source text.
+ */
+export default function Diagram({ kind, source, svg, error }: DiagramProps) {
+  const { theme } = useTheme();
+  const renderId = `mermaid-${useId().replace(/:/g, '')}`;
+  const [rendered, setRendered] = useState<{ svg?: string; error?: string }>({ svg, error });
+  const [showSource, setShowSource] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (kind !== 'mermaid') return;
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const { default: mermaid } = await import('mermaid');
+        mermaid.initialize({ startOnLoad: false, securityLevel: 'strict', theme: theme === 'dark' ? 'dark' : 'default' });
+        const result = await mermaid.render(renderId, source);
+        if (!cancelled) setRendered({ svg: result.svg });
+      } catch (err) {
+        // Mermaid leaves its scratch element behind when parsing fails
+        document.getElementById(`d${renderId}`)?.remove();
+        if (!cancelled) setRendered({ error: err instanceof Error ? err.message : String(err) });
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [kind, source, theme, renderId]);
+
+  const handleCopy = async (): Promise<void> => {
+    try {
+      await navigator.clipboard.writeText(source);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy to clipboard:', err);
+    }
+  };
+
+  const failed = !!rendered.error;
+  const isLoading = kind === 'mermaid' && !rendered.svg && !failed;
+  const buttonClass = 'text-xs text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors';
+
+  return (
+    <figure className="my-8">
+      <div className="rounded-xl border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-[#0d1117] overflow-hidden shadow-lg">
+        <div className="flex items-center justify-between px-4 py-2 bg-gray-100 dark:bg-gray-800/50 border-b border-gray-200 dark:border-gray-700">
+          <span className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wide">{LABELS[kind]}</span>
+          <div className="flex items-center gap-3">
+            {rendered.svg && (
+              <button type="button" onClick={() => setShowSource((value) => !value)} className={buttonClass}>
+                {showSource ? 'Show diagram' : kind === 'ascii' ? 'Show text' : 'Show source'}
+              </button>
+            )}
+            <button type="button" onClick={handleCopy} className={buttonClass}>
+              {copied ? 'Copied' : 'Copy'}
+            </button>
+          </div>
+        </div>
+        {failed && (
+          <p className="px-4 pt-3 text-xs text-red-600 dark:text-red-400" role="note">
+            Could not render this diagram: {rendered.error}
+          </p>
+        )}
+        {rendered.svg && !showSource ? (
+          <div
+            className="diagram-svg p-4 overflow-x-auto flex justify-center text-gray-800 dark:text-gray-200"
+            role="img"
+            aria-label={`${LABELS[kind]} diagram`}
+            dangerouslySetInnerHTML={{ __html: rendered.svg }}
+          />
+        ) : (
+          <pre
+            className={`p-4 overflow-x-auto font-mono text-xs md:text-sm text-gray-800 dark:text-gray-100 ${
+              kind === 'ascii' ? 'ascii-art-content leading-relaxed' : ''
+            } ${isLoading ? 'opacity-50' : ''}`}
+            aria-busy={isLoading}
+          >
+            {source}
+          </pre>
+        )}
+      </div>
+    </figure>
+  );
+}
@@ -30,14 +30,6 @@ export default function FlowDiagram({ chapters, repoName, currentChapter }: Flow
     );
   };
 
-  const getChapterTitle = (chapterName: string) => {
-    return chapterName
-      .replace(/^\d+[-_]?/, '')
-      .replace('.md', '')
-      .replace(/_/g, ' ')
-      .replace(/\b\w/g, (l) => l.toUpperCase());
-  };
-
   const getChapterCategory = (chapterName: string, index: number) => {
     const name = chapterName.toLowerCase();
     if (name.includes('introduction') || name.includes('intro')) return 'BASICS';
@@ -72,7 +64,7 @@ export default function FlowDiagram({ chapters, repoName, currentChapter }: Flow
           {chapters.map((chapter, index) => {
             const isActive = currentChapter === chapter.slug;
             const category = getChapterCategory(chapter.name, index);
-            const title = getChapterTitle(chapter.name);
+            const title = chapter.title;
             const isLast = index === chapters.length - 1;
 
             return (
@@ -1,39 +1,30 @@
 import Link from 'next/link';
 import { Repository } from '@/lib/github';
+import { formatFacetValue } from '@/lib/guide-taxonomy';
 
 interface GuideCardProps {
   repo: Repository;
+  /** Chapters the reader has completed, from the progress store */
+  completedChapters?: number;
 }
 
-export default function GuideCard({ repo }: GuideCardProps) {
+export default function GuideCard({ repo, completedChapters = 0 }: GuideCardProps) {
   const getYear = () => {
     const match = repo.description?.match(/\b(19|20)\d{2}\b/);
     return match ? match[0] : null;
   };
 
-  const getTags = () => {
-    const tags: string[] = [];
-    const name = repo.name.toLowerCase();
-    const desc = (repo.description || repo.readmeDescription || '').toLowerCase();
-
-    if (name.includes('shell') || desc.includes('shell')) tags.push('Shell');
-    if (name.includes('c') && !name.includes('++')) tags.push('C');
-    if (name.includes('cpp') || name.includes('c++')) tags.push('C++');
-    if (name.includes('rust')) tags.push('Rust');
-    if (desc.includes('unix') || desc.includes('linux')) tags.push('Unix');
-    if (desc.includes('system')) tags.push('Systems');
-
-    return tags.slice(0, 3);
-  };
-
   const year = getYear();
-  const tags = getTags();
+  const taxonomy = repo.taxonomy;
+  const tags = taxonomy ? [...taxonomy.languages, ...taxonomy.topics].slice(0, 3) : [];
   const displayTitle = repo.readmeTitle || repo.name;
   const displayDescription = repo.readmeDescription || repo.description;
+  const chapterCount = repo.chapterCount || 0;
+  const percent = chapterCount > 0 ? Math.round((Math.min(completedChapters, chapterCount) / chapterCount) * 100) : 0;
 
   return (
     <Link
-      href={`/${repo.name}`}
+      href={`/${repo.slug}`}
       className="group relative block p-6 rounded-xl bg-white dark:bg-[#171717] border border-gray-200 dark:border-[#262626] hover:border-gray-300 dark:hover:border-[#404040] transition-all duration-200 hover:shadow-xl hover:shadow-black/20"
     >
       <div className="flex items-start justify-between mb-3">
@@ -63,6 +54,14 @@ export default function GuideCard({ repo }: GuideCardProps) {
               })}
             </div>
           )}
+          {taxonomy?.difficulty && (
+            <span className="px-2 py-0.5 rounded text-xs font-medium border bg-gray-100 dark:bg-[#262626] text-gray-600 dark:text-gray-400 border-gray-200 dark:border-[#404040]">
+              {formatFacetValue(taxonomy.difficulty)}
+            </span>
+          )}
+          {taxonomy?.status && taxonomy.status !== 'complete' && (
+            <span className="text-xs font-medium text-yellow-600 dark:text-yellow-500">{formatFacetValue(taxonomy.status)}</span>
+          )}
         </div>
         <button className="opacity-0 group-hover:opacity-100 transition-opacity p-1.5 hover:bg-gray-100 dark:hover:bg-[#262626] rounded">
           <svg className="w-4 h-4 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -80,6 +79,28 @@ export default function GuideCard({ repo }: GuideCardProps) {
           {displayDescription}
         </p>
       )}
+
+      {chapterCount > 0 && (
+        <div className="mt-4">
+          <div className="flex items-baseline justify-between mb-1 text-xs text-gray-500 dark:text-gray-500">
+            <span>
+              {completedChapters} of {chapterCount} chapters
+            </span>
+            {completedChapters > 0 && <span>{percent}%</span>}
+          </div>
+          <div className="w-full bg-gray-200 dark:bg-gray-800 rounded-full h-1.5 overflow-hidden">
+            <div
+              className="bg-gradient-to-r from-blue-500 to-green-500 h-1.5 rounded-full transition-all duration-500"
+              style={{ width: `${percent}%` }}
+              role="progressbar"
+              aria-valuenow={percent}
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-label={`${percent}% of the guide completed`}
+            />
+          </div>
+        </div>
+      )}
     </Link>
   );
 }
@@ -0,0 +1,67 @@
+'use client';
+
+import { formatFacetValue, getFacetValues, FacetSelection, TaxonomyFacet, TAXONOMY_FACETS } from '@/lib/guide-taxonomy';
+import type { Repository } from '@/lib/github';
+
+interface GuideFacetsProps {
+  repos: Repository[];
+  selection: FacetSelection;
+  onToggle: (facet: TaxonomyFacet, value: string) => void;
+  onClear: () => void;
+}
+
+/**
+ * Multi-select filters built from the guides' taxonomy; only values that at
+ * least one guide has are offered, most common first
+ */
+export default function GuideFacets({ repos, selection, onToggle, onClear }: GuideFacetsProps) {
+  const facets = TAXONOMY_FACETS.map(({ key, label }) => {
+    const counts = new Map<string, number>();
+    repos.forEach((repo) => {
+      if (!repo.taxonomy) return;
+      getFacetValues(repo.taxonomy, key).forEach((value) => counts.set(value, (counts.get(value) || 0) + 1));
+    });
+    // Keep selected values visible even if no guide has them anymore
+    selection[key].forEach((value) => counts.set(value, counts.get(value) || 0));
+    const options = Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+    return { key, label, options };
+  }).filter((facet) => facet.options.length > 0);
+
+  const hasSelection = TAXONOMY_FACETS.some(({ key }) => selection[key].length > 0);
+
+  if (facets.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      {facets.map(({ key, label, options }) => (
+        <div key={key} className="flex flex-wrap items-center gap-2" role="group" aria-label={`Filter by ${label.toLowerCase()}`}>
+          <span className="w-24 shrink-0 text-sm text-gray-600 dark:text-gray-400">{label}</span>
+          {options.map(([value, count]) => {
+            const selected = selection[key].includes(value);
+            return (
+              <button
+                key={value}
+                type="button"
+                onClick={() => onToggle(key, value)}
+                aria-pressed={selected}
+                className={`px-3 py-1 rounded-lg text-sm font-medium transition-colors ${
+                  selected
+                    ? 'bg-blue-500 text-white'
+                    : 'bg-gray-100 dark:bg-[#171717] text-gray-700 dark:text-gray-300 border border-gray-200 dark:border-[#262626] hover:border-gray-300 dark:hover:border-[#404040]'
+                }`}
+              >
+                {formatFacetValue(value)}
+                <span className={`ml-1.5 text-xs ${selected ? 'text-blue-100' : 'text-gray-500'}`}>{count}</span>
+              </button>
+            );
+          })}
+        </div>
+      ))}
+      {hasSelection && (
+        <button type="button" onClick={onClear} className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+          Clear filters
+        </button>
+      )}
+    </div>
+  );
+}
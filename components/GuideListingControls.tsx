@@ -0,0 +1,49 @@
+'use client';
+
+import { GUIDE_GROUP_MODES, GUIDE_SORT_MODES, GuideGroupMode, GuideListingOptions, GuideSortMode } from '@/lib/guide-listing';
+
+interface GuideListingControlsProps {
+  options: GuideListingOptions;
+  onChange: (options: GuideListingOptions) => void;
+}
+
+const SELECT_CLASS =
+  'px-3 py-1.5 rounded-lg text-sm bg-gray-100 dark:bg-[#171717] text-gray-700 dark:text-gray-300 border border-gray-200 dark:border-[#262626] focus:outline-none focus:border-blue-500 dark:focus:border-[#404040]';
+
+/**
+ * Sort and group pickers for the homepage guide list
+ */
+export default function GuideListingControls({ options, onChange }: GuideListingControlsProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600 dark:text-gray-400">
+      <label className="flex items-center gap-2">
+        Sort by
+        <select
+          value={options.sort}
+          onChange={(e) => onChange({ ...options, sort: e.target.value as GuideSortMode })}
+          className={SELECT_CLASS}
+        >
+          {GUIDE_SORT_MODES.map(({ key, label }) => (
+            <option key={key} value={key}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="flex items-center gap-2">
+        Group by
+        <select
+          value={options.group}
+          onChange={(e) => onChange({ ...options, group: e.target.value as GuideGroupMode })}
+          className={SELECT_CLASS}
+        >
+          {GUIDE_GROUP_MODES.map(({ key, label }) => (
+            <option key={key} value={key}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+}
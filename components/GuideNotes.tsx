@@ -0,0 +1,97 @@
+'use client';
+
+import Link from 'next/link';
+import { deleteAnnotation, Annotation } from '@/lib/annotations-store';
+import { useAnnotations } from '@/lib/use-annotations';
+
+interface GuideNotesProps {
+  repoName: string;
+  /** All chapters in reading order */
+  chapters: Array<{ slug: string; title: string }>;
+}
+
+/**
+ * Every annotation in a guide, grouped by chapter in reading order, each
+ * linking back to its place in the chapter
+ */
+export default function GuideNotes({ repoName, chapters }: GuideNotesProps) {
+  const { annotations, isHydrated } = useAnnotations(repoName);
+
+  if (!isHydrated) return null;
+
+  if (annotations.length === 0) {
+    return (
+      <p className="text-gray-600 dark:text-gray-400">
+        No notes yet. Select text in any chapter to highlight it or add a note.
+      </p>
+    );
+  }
+
+  const groups = chapters
+    .map((chapter) => ({
+      ...chapter,
+      annotations: annotations.filter((annotation) => annotation.chapterSlug === chapter.slug),
+    }))
+    .filter((group) => group.annotations.length > 0);
+
+  // Chapters that were renamed or removed since the notes were made
+  const knownSlugs = new Set(chapters.map((chapter) => chapter.slug));
+  const orphaned = annotations.filter((annotation) => !knownSlugs.has(annotation.chapterSlug));
+
+  return (
+    <div className="space-y-10">
+      {groups.map((group) => (
+        <section key={group.slug}>
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
+            <Link href={`/${repoName}/${group.slug}`} className="hover:text-blue-600 dark:hover:text-blue-400 transition-colors">
+              {group.title}
+            </Link>
+          </h2>
+          <ul className="space-y-3">
+            {group.annotations.map((annotation) => (
+              <NoteEntry key={annotation.id} repoName={repoName} annotation={annotation} />
+            ))}
+          </ul>
+        </section>
+      ))}
+
+      {orphaned.length > 0 && (
+        <section>
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-1">Other</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">From chapters that no longer exist in this guide.</p>
+          <ul className="space-y-3">
+            {orphaned.map((annotation) => (
+              <NoteEntry key={annotation.id} repoName={repoName} annotation={annotation} />
+            ))}
+          </ul>
+        </section>
+      )}
+    </div>
+  );
+}
+
+function NoteEntry({ repoName, annotation }: { repoName: string; annotation: Annotation }) {
+  return (
+    <li className="rounded-lg border border-gray-200 dark:border-[#262626] p-4">
+      <Link
+        href={`/${repoName}/${annotation.chapterSlug}#note-${annotation.id}`}
+        className="block text-sm text-gray-600 dark:text-gray-400 border-l-2 border-yellow-400 pl-3 hover:text-gray-900 dark:hover:text-gray-200 transition-colors"
+      >
+        {annotation.anchor.exact}
+      </Link>
+      {annotation.note && (
+        <p className="mt-3 text-gray-900 dark:text-gray-100 whitespace-pre-wrap">{annotation.note}</p>
+      )}
+      <div className="mt-3 flex items-center justify-between text-xs text-gray-500 dark:text-gray-500">
+        <span>{new Date(annotation.updatedAt).toLocaleDateString()}</span>
+        <button
+          type="button"
+          onClick={() => deleteAnnotation(repoName, annotation.id)}
+          className="text-red-600 dark:text-red-400 hover:underline"
+        >
+          Delete
+        </button>
+      </div>
+    </li>
+  );
+}
@@ -0,0 +1,82 @@
+'use client';
+
+import Link from 'next/link';
+import { countCompletedChapters, getResumePoint } from '@/lib/progress-store';
+import { useAnnotations } from '@/lib/use-annotations';
+import { useGuideProgress } from '@/lib/use-guide-progress';
+
+interface GuideProgressSummaryProps {
+  repoName: string;
+  /** All chapters in reading order */
+  chapters: Array<{ slug: string; title: string }>;
+}
+
+/**
+ * Guide-level progress: percentage of chapters completed and a link back to
+ * where the reader left off
+ */
+export default function GuideProgressSummary({ repoName, chapters }: GuideProgressSummaryProps) {
+  const chapterSlugs = chapters.map((chapter) => chapter.slug);
+  const { progress, isHydrated } = useGuideProgress(repoName, chapterSlugs);
+  const { annotations } = useAnnotations(repoName);
+
+  if (!isHydrated || chapters.length === 0) return null;
+
+  const completedCount = countCompletedChapters(progress, chapterSlugs);
+  const percent = Math.round((completedCount / chapters.length) * 100);
+  const resume = getResumePoint(progress, chapterSlugs);
+  const resumeChapter = resume ? chapters.find((chapter) => chapter.slug === resume.slug) : null;
+  const isFinished = completedCount === chapters.length;
+
+  return (
+    <div className="w-full max-w-4xl mx-auto mb-8 p-6 rounded-xl border border-gray-800 bg-[#0a0a0a]">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div className="flex-grow">
+          <div className="flex items-baseline justify-between mb-2">
+            <span className="text-sm font-medium text-gray-300">Your progress</span>
+            <span className="text-sm font-semibold text-blue-400">
+              {percent}% · {completedCount} / {chapters.length} chapters
+            </span>
+          </div>
+          <div className="w-full bg-gray-800 rounded-full h-2 overflow-hidden">
+            <div
+              className="bg-gradient-to-r from-blue-500 to-green-500 h-2 rounded-full transition-all duration-500"
+              style={{ width: `${percent}%` }}
+              role="progressbar"
+              aria-valuenow={percent}
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-label={`${percent}% of the guide completed`}
+            />
+          </div>
+          {resumeChapter && (
+            <p className="mt-2 text-sm text-gray-400 truncate">
+              Last position: {resumeChapter.title}
+              {resume?.section && ` › ${resume.section.text}`}
+            </p>
+          )}
+          {annotations.length > 0 && (
+            <Link href={`/${repoName}/notes`} className="mt-1 inline-block text-sm text-blue-400 hover:underline">
+              My notes ({annotations.length})
+            </Link>
+          )}
+        </div>
+
+        {isFinished ? (
+          <span className="shrink-0 text-sm font-medium text-green-400">Guide completed</span>
+        ) : (
+          <Link
+            href={
+              resumeChapter
+                ? `/${repoName}/${resumeChapter.slug}${resume?.section ? `#${resume.section.id}` : ''}`
+                : `/${repoName}/${chapters[0].slug}`
+            }
+            className="shrink-0 inline-flex items-center px-4 py-2 rounded-lg text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 transition-colors"
+          >
+            {resumeChapter ? 'Resume where you left off' : 'Start the guide'} →
+          </Link>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { Tab } from '@headlessui/react';
 import RoadmapList from './RoadmapList';
+import GuideProgressSummary from './GuideProgressSummary';
 import { RoadmapTreeNode } from '@/lib/github';
 import { ReactNode } from 'react';
 
@@ -9,9 +10,11 @@ interface GuideTabsProps {
   descriptionContent: ReactNode;
   roadmapTree: RoadmapTreeNode;
   repoName: string;
+  /** All chapters in reading order */
+  chapters: Array<{ slug: string; title: string }>;
 }
 
-export default function GuideTabs({ descriptionContent, roadmapTree, repoName }: GuideTabsProps) {
+export default function GuideTabs({ descriptionContent, roadmapTree, repoName, chapters }: GuideTabsProps) {
   return (
     <Tab.Group>
       <Tab.List className="flex space-x-1 rounded-xl bg-gray-900 p-1 mb-8">
@@ -37,7 +40,8 @@ export default function GuideTabs({ descriptionContent, roadmapTree, repoName }:
           {descriptionContent || <p className="text-gray-400">No description available.</p>}
         </Tab.Panel>
         <Tab.Panel>
-          <RoadmapList tree={roadmapTree} repoName={repoName} />
+          <GuideProgressSummary repoName={repoName} chapters={chapters} />
+          <RoadmapList tree={roadmapTree} repoName={repoName} chapterSlugs={chapters.map((chapter) => chapter.slug)} />
         </Tab.Panel>
       </Tab.Panels>
     </Tab.Group>
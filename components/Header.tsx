@@ -1,15 +1,19 @@
 'use client';
 
+import { useState } from 'react';
 import Link from 'next/link';
 import { useTheme } from './ThemeProvider';
+import Search from './Search';
+import SettingsPanel from './SettingsPanel';
 
 export default function Header() {
   const { theme, toggleTheme } = useTheme();
+  const [settingsOpen, setSettingsOpen] = useState(false);
 
   return (
     <header className="border-b border-gray-200 dark:border-[#262626] bg-white dark:bg-[#0a0a0a] sticky top-0 z-50 backdrop-blur-sm bg-opacity-80 dark:bg-opacity-80">
       <div className="container mx-auto px-6 py-4 max-w-7xl">
-        <div className="flex items-center justify-between">
+        <div className="flex items-center justify-between gap-6">
           <Link href="/" className="flex items-center gap-2 group">
             <div className="w-8 h-8 rounded-lg bg-gradient-to-br from-blue-500 to-purple-600 flex items-center justify-center">
               <span className="text-white font-bold text-sm">IFS</span>
@@ -18,11 +22,17 @@ export default function Header() {
               Implement From Scratch
             </span>
           </Link>
+          <div className="hidden md:flex flex-1 justify-center">
+            <Search placeholder="Search guides and chapters..." />
+          </div>
           <div className="flex items-center gap-6">
             <nav className="hidden sm:flex gap-6">
               <Link href="/" className="text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors">
                 Guides
               </Link>
+              <Link href="/reading-list" className="text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors">
+                Reading list
+              </Link>
             </nav>
             <button
               onClick={toggleTheme}
@@ -39,9 +49,20 @@ export default function Header() {
                 </svg>
               )}
             </button>
+            <button
+              onClick={() => setSettingsOpen(true)}
+              className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-[#171717] transition-colors text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+              aria-label="Open settings"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+              </svg>
+            </button>
           </div>
         </div>
       </div>
+      <SettingsPanel open={settingsOpen} onClose={() => setSettingsOpen(false)} />
     </header>
   );
 }
@@ -1,50 +1,80 @@
 'use client';
 
-import { useRef, useMemo, useState, useEffect } from 'react';
+import { isValidElement, useContext, useRef, useMemo, useState, useEffect } from 'react';
 import { MDXRemote } from 'next-mdx-remote';
 import { MDXRemoteSerializeResult } from 'next-mdx-remote';
+import Link from 'next/link';
+import BookmarkButton from './BookmarkButton';
+import Diagram from './Diagram';
+import CodeGroup, { InCodeGroupContext } from './CodeGroup';
+import type { DiagramKind } from '@/lib/rehype-diagrams';
+import type { CodeGroupTab } from '@/lib/remark-code-groups';
+import SectionCheckpoint from './SectionCheckpoint';
 
 interface MDXClientProps {
   source: MDXRemoteSerializeResult;
-  repoName: string;
-  branch: string;
   skipFirstHeading?: boolean;
+  /** Chapter being rendered, to attach section checkboxes and bookmark toggles to its headings */
+  chapter?: { repoName: string; chapterSlug: string };
 }
 
-// Component for rendering code blocks with ASCII art support and copy functionality
-function CodeBlock({ children, className, ...props }: React.HTMLAttributes<HTMLPreElement>) {
+// Set on diagram fences by lib/rehype-diagrams.ts
+interface DiagramAttributes {
+  'data-diagram'?: DiagramKind;
+  'data-diagram-svg'?: string;
+  'data-diagram-error'?: string;
+}
+
+// Set on the code element by lib/rehype-code-meta.ts and lib/remark-source-snippets.ts
+interface CodeAttributes {
+  'data-filename'?: string;
+  'data-source-url'?: string;
+  'data-source-error'?: string;
+}
+
+// Text of a code block as written, without the labels of collapsed regions (lib/rehype-code-meta.ts)
+function getCodeText(node: React.ReactNode): string {
+  if (typeof node === 'string' || typeof node === 'number') return String(node);
+  if (Array.isArray(node)) return node.map(getCodeText).join('');
+  if (isValidElement<{ children?: React.ReactNode }>(node) && node.type !== 'summary') {
+    return getCodeText(node.props.children);
+  }
+  return '';
+}
+
+// Component for rendering code blocks with diagram support and copy functionality
+function CodeBlock({
+  children,
+  className,
+  'data-diagram': diagram,
+  'data-diagram-svg': diagramSvg,
+  'data-diagram-error': diagramError,
+  ...props
+}: React.HTMLAttributes<HTMLPreElement> & DiagramAttributes) {
   const [copied, setCopied] = useState(false);
+  const inCodeGroup = useContext(InCodeGroupContext);
 
   // Extract code content and language
   let codeContent = '';
   let language = '';
   let filename = '';
+  let sourceUrl = '';
+  let sourceError = '';
   
   if (children && typeof children === 'object' && 'props' in children) {
-    const childProps = children.props as { children?: string; className?: string; 'data-filename'?: string };
-    codeContent = childProps.children || '';
-    const classNames = childProps.className || '';
-    language = classNames.replace('language-', '');
+    const childProps = children.props as CodeAttributes & { children?: React.ReactNode; className?: string };
+    codeContent = getCodeText(childProps.children);
+    language = /(?:^|\s)language-(\S+)/.exec(childProps.className || '')?.[1] || '';
     filename = childProps['data-filename'] || '';
+    sourceUrl = childProps['data-source-url'] || '';
+    sourceError = childProps['data-source-error'] || '';
   } else if (typeof children === 'string') {
     codeContent = children;
   }
 
-  // Check if content looks like ASCII art
-  const isAsciiArt = typeof codeContent === 'string' && codeContent.length > 0 && (
-    // Box drawing characters
-    codeContent.includes('\u250C') || codeContent.includes('\u2502') || codeContent.includes('\u2514') || 
-    codeContent.includes('\u2500') || codeContent.includes('\u251C') || codeContent.includes('\u2510') ||
-    codeContent.includes('\u2518') || codeContent.includes('\u2524') || codeContent.includes('\u252C') ||
-    codeContent.includes('\u2534') || codeContent.includes('\u256D') || codeContent.includes('\u256E') ||
-    codeContent.includes('\u2570') || codeContent.includes('\u256F') || codeContent.includes('\u2550') ||
-    codeContent.includes('\u2551') || codeContent.includes('\u2554') || codeContent.includes('\u2557') ||
-    codeContent.includes('\u255A') || codeContent.includes('\u255D') ||
-    // ASCII art patterns with multiple lines
-    (codeContent.split('\n').length > 3 && /[|\\\/\-_=+*#@$%^&(){}[\]]/.test(codeContent)) ||
-    // Explicit language hints
-    language === 'ascii' || language === 'flowchart' || language === 'diagram' || language === 'art'
-  );
+  if (diagram) {
+    return <Diagram kind={diagram} source={codeContent} svg={diagramSvg} error={diagramError} />;
+  }
 
   const handleCopy = async (): Promise<void> => {
     try {
@@ -56,81 +86,64 @@ function CodeBlock({ children, className, ...props }: React.HTMLAttributes<HTMLP
     }
   };
 
-  // ASCII art rendering with enhanced styling
-  if (isAsciiArt) {
-    return (
-      <figure className="my-8 group relative">
-        {/* Copy button for ASCII art */}
-        <button
-          onClick={handleCopy}
-          className="absolute top-3 right-3 p-2 rounded-md bg-gray-800/80 text-gray-400 hover:text-white hover:bg-gray-700 transition-all opacity-0 group-hover:opacity-100 z-10"
-          aria-label="Copy to clipboard"
-          type="button"
-        >
-          {copied ? (
-            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-            </svg>
-          ) : (
-            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
-            </svg>
-          )}
-        </button>
-        <div className="relative rounded-xl border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-[#0d1117] overflow-hidden shadow-lg">
-          {/* Header bar for ASCII diagrams */}
-          <div className="flex items-center justify-between px-4 py-2 bg-gray-100 dark:bg-gray-800/50 border-b border-gray-200 dark:border-gray-700">
-            <span className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wide">
-              {language || 'Diagram'}
-            </span>
-          </div>
-          <div className="p-4 overflow-x-auto">
-            <pre 
-              className="ascii-art-content font-mono text-xs md:text-sm leading-relaxed text-gray-800 dark:text-gray-100"
-              style={{ 
-                whiteSpace: 'pre', 
-                fontFamily: "'JetBrains Mono', 'Fira Code', 'Monaco', 'Consolas', monospace",
-                tabSize: 4,
-              }}
-            >
-              {codeContent}
-            </pre>
-          </div>
-        </div>
-      </figure>
-    );
-  }
+  // Inside a code group the tab names the language, so only a file name needs a header
+  const headerLanguage = inCodeGroup ? '' : language;
+  const hasHeader = !!(headerLanguage || filename || sourceUrl);
 
   // Regular code block rendering with copy button
   return (
-    <div className="my-6 group relative">
+    <div className={`${inCodeGroup ? '' : 'my-6'} group relative`}>
       {/* Header with language and copy button */}
-      {(language || filename) && (
-        <div className="flex items-center justify-between px-4 py-2 bg-gray-100 dark:bg-gray-800 border border-b-0 border-gray-200 dark:border-[#262626] rounded-t-xl">
+      {hasHeader && (
+        <div
+          className={`flex items-center justify-between px-4 py-2 bg-gray-100 dark:bg-gray-800 border border-b-0 border-gray-200 dark:border-[#262626] ${
+            inCodeGroup ? '' : 'rounded-t-xl'
+          }`}
+        >
           <div className="flex items-center gap-2">
-            {language && (
+            {headerLanguage && (
               <span className="text-xs font-semibold text-gray-600 dark:text-gray-400 uppercase tracking-wide">
-                {language}
+                {headerLanguage}
               </span>
             )}
             {filename && (
               <>
-                <span className="text-gray-400 dark:text-gray-600">-</span>
+                {headerLanguage && <span className="text-gray-400 dark:text-gray-600">-</span>}
                 <span className="text-xs text-gray-700 dark:text-gray-300 font-medium">
                   {filename}
                 </span>
               </>
             )}
           </div>
+          {sourceUrl && (
+            <a
+              href={sourceUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-xs text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors"
+            >
+              View on GitHub
+            </a>
+          )}
         </div>
       )}
+      {sourceError && (
+        <p
+          className={`px-4 py-2 text-xs text-red-600 dark:text-red-400 border border-b-0 border-gray-200 dark:border-[#262626] ${
+            hasHeader || inCodeGroup ? '' : 'rounded-t-xl'
+          }`}
+          role="note"
+        >
+          {sourceError}
+        </p>
+      )}
       {/* Copy button */}
       <button
         onClick={handleCopy}
         className="absolute top-2 right-2 p-2 rounded-md bg-gray-800/80 text-gray-400 hover:text-white hover:bg-gray-700 transition-all opacity-0 group-hover:opacity-100 z-10"
         aria-label="Copy to clipboard"
         type="button"
-        style={{ top: language || filename ? '2.75rem' : '0.5rem' }}
+        style={{ top: hasHeader ? '2.75rem' : '0.5rem' }}
       >
         {copied ? (
           <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -144,7 +157,7 @@ function CodeBlock({ children, className, ...props }: React.HTMLAttributes<HTMLP
       </button>
       <pre
         className={`overflow-x-auto p-5 bg-[#0d1117] border border-gray-200 dark:border-[#262626] font-mono text-sm text-[#c9d1d9] shadow-lg ${
-          language || filename ? 'rounded-b-xl rounded-t-none' : 'rounded-xl'
+          hasHeader || inCodeGroup || sourceError ? 'rounded-b-xl rounded-t-none' : 'rounded-xl'
         } ${className || ''}`}
         {...props}
       >
@@ -154,30 +167,37 @@ function CodeBlock({ children, className, ...props }: React.HTMLAttributes<HTMLP
   );
 }
 
-export default function MDXClient({ source, repoName, branch, skipFirstHeading = false }: MDXClientProps) {
+// Permalink shown next to a heading on hover
+function HeadingAnchor({ id }: { id?: string }) {
+  if (!id) return null;
+  return (
+    <a
+      href={`#${id}`}
+      className="ml-2 inline-block align-middle text-gray-400 hover:text-blue-500 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+      aria-label="Link to this section"
+    >
+      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
+      </svg>
+    </a>
+  );
+}
+
+export default function MDXClient({ source, skipFirstHeading = false, chapter }: MDXClientProps) {
   const firstHeadingSkipped = useRef(false);
 
   const components = {
+    // Relative image and link targets are resolved server-side (lib/rehype-resolve-links.ts)
     img: ({ src, alt, ...props }: any) => {
-      if (src && !src.startsWith('http') && !src.startsWith('/') && !src.startsWith('#')) {
-        let imagePath = src;
-        if (!imagePath.startsWith('docs/')) {
-          imagePath = `docs/${imagePath}`;
-        }
-        const rawUrl = `https://raw.githubusercontent.com/implement-from-scratch/${repoName}/${branch}/${imagePath}`;
-        // eslint-disable-next-line @next/next/no-img-element
-        return <img src={rawUrl} alt={alt} {...props} className="max-w-full rounded my-4" />;
-      }
       // eslint-disable-next-line @next/next/no-img-element
       return <img src={src} alt={alt} {...props} className="max-w-full rounded my-4" />;
     },
     a: ({ href, children, ...props }: any) => {
-      if (href && !href.startsWith('http') && !href.startsWith('/') && !href.startsWith('#')) {
-        const rawUrl = `https://raw.githubusercontent.com/implement-from-scratch/${repoName}/${branch}/${href}`;
+      if (href && href.startsWith('/') && !href.startsWith('//')) {
         return (
-          <a href={rawUrl} className="text-blue-600 dark:text-blue-400 hover:underline" {...props}>
+          <Link href={href} className="text-blue-600 dark:text-blue-400 hover:underline" {...props}>
             {children}
-          </a>
+          </Link>
         );
       }
       return (
@@ -197,6 +217,13 @@ export default function MDXClient({ source, repoName, branch, skipFirstHeading =
       );
     },
     pre: CodeBlock,
+    // Code groups from lib/remark-code-groups.ts; other divs render as they are
+    div: ({ 'data-code-group': codeGroup, children, ...props }: any) => {
+      if (codeGroup) {
+        return <CodeGroup tabs={JSON.parse(codeGroup) as CodeGroupTab[]}>{children}</CodeGroup>;
+      }
+      return <div {...props}>{children}</div>;
+    },
     h1: ({ children, ...props }: any) => {
       return (
         <h1 className="mdx-h1 text-4xl font-bold mt-12 mb-6 first:mt-0 text-gray-900 dark:text-white" {...props}>
@@ -205,18 +232,30 @@ export default function MDXClient({ source, repoName, branch, skipFirstHeading =
       );
     },
     h2: ({ children, ...props }: any) => (
-      <h2 className="text-3xl font-semibold mt-10 mb-4 text-gray-900 dark:text-white border-b border-gray-200 dark:border-[#262626] pb-2" {...props}>
+      <h2 className="group text-3xl font-semibold mt-10 mb-4 text-gray-900 dark:text-white border-b border-gray-200 dark:border-[#262626] pb-2" {...props}>
+        {chapter && props.id && (
+          <SectionCheckpoint repoName={chapter.repoName} chapterSlug={chapter.chapterSlug} sectionId={props.id} />
+        )}
         {children}
+        <HeadingAnchor id={props.id} />
+        {chapter && props.id && (
+          <BookmarkButton repoName={chapter.repoName} chapterSlug={chapter.chapterSlug} sectionId={props.id} />
+        )}
       </h2>
     ),
     h3: ({ children, ...props }: any) => (
-      <h3 className="text-2xl font-semibold mt-8 mb-3 text-gray-900 dark:text-white" {...props}>
+      <h3 className="group text-2xl font-semibold mt-8 mb-3 text-gray-900 dark:text-white" {...props}>
         {children}
+        <HeadingAnchor id={props.id} />
+        {chapter && props.id && (
+          <BookmarkButton repoName={chapter.repoName} chapterSlug={chapter.chapterSlug} sectionId={props.id} />
+        )}
       </h3>
     ),
     h4: ({ children, ...props }: any) => (
-      <h4 className="text-xl font-semibold mt-6 mb-2 text-gray-800 dark:text-gray-200" {...props}>
+      <h4 className="group text-xl font-semibold mt-6 mb-2 text-gray-800 dark:text-gray-200" {...props}>
         {children}
+        <HeadingAnchor id={props.id} />
       </h4>
     ),
     p: ({ children, ...props }: any) => (
@@ -287,8 +326,16 @@ export default function MDXClient({ source, repoName, branch, skipFirstHeading =
     },
   };
 
+  // Content renders on the client, after the browser has looked for the #section target
+  useEffect(() => {
+    const id = decodeURIComponent(window.location.hash.slice(1));
+    if (id) {
+      document.getElementById(id)?.scrollIntoView();
+    }
+  }, []);
+
   return (
-    <div className={`max-w-none ${skipFirstHeading ? 'skip-first-heading' : ''}`}>
+    <div className={`max-w-none ${skipFirstHeading ? 'skip-first-heading' : ''}`} data-chapter-content>
       <MDXRemote {...source} components={components} />
     </div>
   );
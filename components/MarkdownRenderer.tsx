@@ -5,17 +5,41 @@ import remarkMath from 'remark-math';
 import { MDXRemoteSerializeResult } from 'next-mdx-remote';
 import dynamic from 'next/dynamic';
 import remarkGfm from 'remark-gfm';
+import { LinkContext } from '@/lib/link-resolver';
+import { rehypeResolveLinks } from '@/lib/rehype-resolve-links';
+import { rehypeHeadingIds, TocHeading } from '@/lib/rehype-heading-ids';
+import { rehypeDiagrams } from '@/lib/rehype-diagrams';
+import { rehypeCodeMeta } from '@/lib/rehype-code-meta';
+import { remarkCodeGroups } from '@/lib/remark-code-groups';
+import { remarkSourceSnippets } from '@/lib/remark-source-snippets';
+import { diagramConfig, AsciiDiagramMode } from '@/config/diagrams';
+import ScrollSpyTOC from './ScrollSpyTOC';
 
 const MDXClient = dynamic(() => import('./MDXClient'), { ssr: false });
 
 interface MarkdownRendererProps {
   content: string;
   repoName: string;
-  branch: string;
+  /** Where the rendered file lives, to resolve its relative links (see getLinkContext) */
+  linkContext: LinkContext;
   skipFirstHeading?: boolean;
+  /** Render an "On this page" sidebar built from the h2–h4 headings */
+  withToc?: boolean;
+  /** Chapter being rendered; its h2 sections get "done" checkboxes and its headings bookmark toggles */
+  chapter?: { repoName: string; chapterSlug: string };
+  /** Whether ASCII art is converted to SVG; defaults to config/diagrams.ts */
+  asciiDiagrams?: AsciiDiagramMode;
 }
 
-export async function MarkdownRenderer({ content, repoName, branch, skipFirstHeading = false }: MarkdownRendererProps) {
+export async function MarkdownRenderer({
+  content,
+  repoName,
+  linkContext,
+  skipFirstHeading = false,
+  withToc = false,
+  chapter,
+  asciiDiagrams = diagramConfig.asciiDiagrams,
+}: MarkdownRendererProps) {
   try {
     // Pre-process content to fix common LaTeX issues
     let processedContent = content;
@@ -80,12 +104,21 @@ export async function MarkdownRenderer({ content, repoName, branch, skipFirstHea
       processedContent = processedContent.replace(`__CODE_BLOCK_${index}__`, block);
     });
 
+    const headings: TocHeading[] = [];
     const mdxSource = await serialize(processedContent, {
       mdxOptions: {
         // remarkMath must come before remarkGfm to parse math expressions first
         // This prevents GFM from interpreting underscores in math as markdown formatting
-        remarkPlugins: [remarkMath, remarkGfm],
+        remarkPlugins: [
+          remarkMath,
+          remarkGfm,
+          // Before code groups, so included snippets can be grouped like written fences
+          [remarkSourceSnippets, { repoName, linkContext }],
+          remarkCodeGroups,
+        ],
         rehypePlugins: [
+          [rehypeResolveLinks, linkContext],
+          [rehypeHeadingIds, { collect: headings }],
           [
             rehypeKatex,
             {
@@ -95,14 +128,30 @@ export async function MarkdownRenderer({ content, repoName, branch, skipFirstHea
               strict: false, // Be more lenient with LaTeX
             },
           ],
+          // Before highlighting, which would otherwise colour diagram sources as code
+          [rehypeDiagrams, { asciiDiagrams }],
           rehypeHighlight,
+          // After highlighting, so the highlighted tokens are what gets split into lines
+          rehypeCodeMeta,
         ],
         format: 'md', // Use 'md' format to be more lenient with markdown parsing
       },
       parseFrontmatter: true,
     });
 
-    return <MDXClient source={mdxSource} repoName={repoName} branch={branch} skipFirstHeading={skipFirstHeading} />;
+    const body = <MDXClient source={mdxSource} skipFirstHeading={skipFirstHeading} chapter={chapter} />;
+    if (!withToc || headings.length === 0) {
+      return body;
+    }
+
+    return (
+      <div className="xl:grid xl:grid-cols-[minmax(0,1fr)_14rem] xl:gap-12">
+        <div className="min-w-0">{body}</div>
+        <aside className="hidden xl:block">
+          <ScrollSpyTOC headings={headings} />
+        </aside>
+      </div>
+    );
   } catch (error: any) {
     console.error('Error rendering markdown for', repoName, ':', error);
     
@@ -1,61 +1,107 @@
 'use client';
 
-import React, { useEffect, useState } from 'react';
+import React, { useEffect } from 'react';
+import { getChapterStatus, markChapterVisited, recordReadingPosition, ChapterStatus } from '@/lib/progress-store';
+import { useGuideProgress } from '@/lib/use-guide-progress';
 
 interface ProgressIndicatorProps {
-    totalChapters: number;
-    currentChapterIndex: number;
     repoName: string;
+    /** All chapter slugs in reading order */
+    chapterSlugs: string[];
+    currentChapterSlug: string;
 }
 
-const STORAGE_KEY_PREFIX = 'progress_';
+/** How often scroll depth is saved while the reader stays in the same section */
+const SAVE_INTERVAL_MS = 5000;
+
+const STATUS_LABELS: Record<ChapterStatus, string> = {
+    'not-started': '',
+    visited: ' (opened)',
+    'in-progress': ' (in progress)',
+    completed: ' (completed)',
+};
 
 /**
  * Progress indicator component showing chapter completion status.
- * Uses localStorage to persist progress across sessions.
+ * Marks the current chapter as visited and records how far it has been scrolled
+ * (see lib/progress-store.ts).
  */
 export function ProgressIndicator({
-    totalChapters,
-    currentChapterIndex,
-    repoName
+    repoName,
+    chapterSlugs,
+    currentChapterSlug,
 }: ProgressIndicatorProps): React.JSX.Element {
-    const [completedChapters, setCompletedChapters] = useState<number[]>([]);
-    const [isHydrated, setIsHydrated] = useState(false);
-
-    const storageKey = `${STORAGE_KEY_PREFIX}${repoName}`;
+    const { progress, isHydrated } = useGuideProgress(repoName, chapterSlugs);
 
-    // Load progress from localStorage on mount
     useEffect(() => {
-        try {
-            const stored = localStorage.getItem(storageKey);
-            if (stored) {
-                const parsed = JSON.parse(stored) as unknown;
-                if (Array.isArray(parsed) && parsed.every((item): item is number => typeof item === 'number')) {
-                    setCompletedChapters(parsed);
-                }
-            }
-        } catch (err) {
-            console.error('Failed to load progress from localStorage:', err);
-        }
-        setIsHydrated(true);
-    }, [storageKey]);
+        if (isHydrated) markChapterVisited(repoName, currentChapterSlug);
+    }, [repoName, currentChapterSlug, isHydrated]);
 
-    // Mark current chapter as visited (completed) when viewing
+    // Track scroll depth through the chapter body and the section being read. Every save
+    // notifies all progress subscribers, so depth is saved every few seconds, when the
+    // section changes and when the page is hidden, rather than on every frame.
     useEffect(() => {
         if (!isHydrated) return;
 
-        const newCompleted = [...new Set([...completedChapters, currentChapterIndex])];
-        if (newCompleted.length !== completedChapters.length) {
-            setCompletedChapters(newCompleted);
-            try {
-                localStorage.setItem(storageKey, JSON.stringify(newCompleted));
-            } catch (err) {
-                console.error('Failed to save progress to localStorage:', err);
+        type Position = Parameters<typeof recordReadingPosition>[2];
+        let frame = 0;
+        let timer = 0;
+        let pending: Position | null = null;
+        let savedSectionId: string | undefined;
+
+        const save = (): void => {
+            window.clearTimeout(timer);
+            timer = 0;
+            if (!pending) return;
+            recordReadingPosition(repoName, currentChapterSlug, pending);
+            savedSectionId = pending.section?.id;
+            pending = null;
+        };
+        const measure = (): void => {
+            frame = 0;
+            const article = document.getElementById('main-content');
+            if (!article) return;
+            const { top, height } = article.getBoundingClientRect();
+            if (height <= 0) return;
+
+            // Last section heading scrolled past the sticky header
+            const headings = Array.from(article.querySelectorAll<HTMLElement>('h2[id], h3[id]'));
+            const current = headings.filter((heading) => heading.getBoundingClientRect().top <= 120).pop();
+
+            pending = {
+                depth: Math.max((window.innerHeight - top) / height, pending?.depth ?? 0),
+                section: current ? { id: current.id, text: current.textContent?.trim() || current.id } : pending?.section,
+            };
+            if (pending.section && pending.section.id !== savedSectionId) {
+                save();
+            } else if (!timer) {
+                timer = window.setTimeout(save, SAVE_INTERVAL_MS);
             }
-        }
-    }, [currentChapterIndex, completedChapters, storageKey, isHydrated]);
+        };
+        const handleScroll = (): void => {
+            if (!frame) frame = window.requestAnimationFrame(measure);
+        };
+        const handleVisibilityChange = (): void => {
+            if (document.visibilityState === 'hidden') save();
+        };
+
+        window.addEventListener('scroll', handleScroll, { passive: true });
+        window.addEventListener('pagehide', save);
+        document.addEventListener('visibilitychange', handleVisibilityChange);
+        return () => {
+            window.removeEventListener('scroll', handleScroll);
+            window.removeEventListener('pagehide', save);
+            document.removeEventListener('visibilitychange', handleVisibilityChange);
+            if (frame) window.cancelAnimationFrame(frame);
+            save();
+        };
+    }, [repoName, currentChapterSlug, isHydrated]);
 
-    const completedCount = completedChapters.length;
+    const totalChapters = chapterSlugs.length;
+    const currentChapterIndex = chapterSlugs.indexOf(currentChapterSlug);
+    const completedCount = chapterSlugs.filter(
+        (slug) => getChapterStatus(progress.chapters[slug]) === 'completed'
+    ).length;
     const progressPercent = totalChapters > 0 ? (completedCount / totalChapters) * 100 : 0;
 
     return (
@@ -98,20 +144,24 @@ export function ProgressIndicator({
 
                 {/* Chapter dots visualization */}
                 <div className="flex items-center gap-1 mt-2 overflow-x-auto py-1">
-                    {Array.from({ length: totalChapters }, (_, i) => {
-                        const isCompleted = isHydrated && completedChapters.includes(i);
+                    {chapterSlugs.map((slug, i) => {
+                        const status = isHydrated ? getChapterStatus(progress.chapters[slug]) : 'not-started';
                         const isCurrent = i === currentChapterIndex;
 
                         return (
                             <div
-                                key={i}
+                                key={slug}
                                 className={`flex-shrink-0 w-2 h-2 rounded-full transition-all duration-300 ${isCurrent
                                         ? 'bg-blue-500 ring-2 ring-blue-300 dark:ring-blue-700 ring-offset-1 ring-offset-white dark:ring-offset-gray-900'
-                                        : isCompleted
+                                        : status === 'completed'
                                             ? 'bg-green-500 dark:bg-green-400'
-                                            : 'bg-gray-300 dark:bg-gray-600'
+                                            : status === 'in-progress'
+                                                ? 'bg-blue-300 dark:bg-blue-700'
+                                                : status === 'visited'
+                                                    ? 'bg-gray-400 dark:bg-gray-500'
+                                                    : 'bg-gray-300 dark:bg-gray-600'
                                     }`}
-                                title={`Chapter ${i + 1}${isCurrent ? ' (current)' : isCompleted ? ' (completed)' : ''}`}
+                                title={`Chapter ${i + 1}${isCurrent ? ' (current)' : STATUS_LABELS[status]}`}
                             />
                         );
                     })}
@@ -0,0 +1,59 @@
+'use client';
+
+import { useEffect } from 'react';
+import { subscribeToLearnerData } from '@/lib/learner-data';
+import { getSyncCode, syncLearnerData } from '@/lib/progress-sync';
+
+// Wait for a pause in reading before pushing changes
+const PUSH_DELAY_MS = 5000;
+
+/**
+ * Keeps progress in sync with the server when the reader has set a sync code:
+ * reconciles once on load, then again shortly after local changes.
+ */
+export default function ProgressSync() {
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let syncing = false;
+    // Set by changes made while a round is in flight, which that round may have missed.
+    // The merge's own writes set it too; the extra round then finds nothing new.
+    let dirty = false;
+
+    const schedule = () => {
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(sync, PUSH_DELAY_MS);
+    };
+
+    const sync = async () => {
+      const code = getSyncCode();
+      if (!code || syncing) return;
+      syncing = true;
+      dirty = false;
+      try {
+        await syncLearnerData(code);
+      } catch (error) {
+        console.error('Progress sync failed:', error);
+      } finally {
+        syncing = false;
+        if (dirty) schedule();
+      }
+    };
+
+    sync();
+    const unsubscribe = subscribeToLearnerData(() => {
+      if (!getSyncCode()) return;
+      if (syncing) {
+        dirty = true;
+        return;
+      }
+      schedule();
+    });
+
+    return () => {
+      unsubscribe();
+      if (timer) clearTimeout(timer);
+    };
+  }, []);
+
+  return null;
+}
@@ -0,0 +1,93 @@
+'use client';
+
+import Link from 'next/link';
+import { setBookmarked, Bookmark } from '@/lib/bookmarks-store';
+import { useBookmarks } from '@/lib/use-bookmarks';
+
+interface ReadingListProps {
+  /** Every guide on the site with its chapters in reading order */
+  guides: Array<{ slug: string; title: string; chapters: Array<{ slug: string; title: string }> }>;
+}
+
+/**
+ * Bookmarks grouped by guide, in the order guides and chapters appear on the site
+ */
+export default function ReadingList({ guides }: ReadingListProps) {
+  const { bookmarks, isHydrated } = useBookmarks();
+
+  if (!isHydrated) return null;
+
+  if (bookmarks.length === 0) {
+    return (
+      <p className="text-gray-600 dark:text-gray-400">
+        Nothing here yet. Use the bookmark button on a chapter, or next to any heading, to save it for later.
+      </p>
+    );
+  }
+
+  const groups = guides
+    .map((guide) => {
+      const chapterOrder = guide.chapters.map((chapter) => chapter.slug);
+      const items = bookmarks
+        .filter((bookmark) => bookmark.repoName === guide.slug)
+        // Chapters that no longer exist sort last
+        .sort((a, b) => rank(chapterOrder, a.chapterSlug) - rank(chapterOrder, b.chapterSlug))
+        .map((bookmark) => ({
+          bookmark,
+          chapterTitle: guide.chapters.find((chapter) => chapter.slug === bookmark.chapterSlug)?.title,
+        }));
+      return { ...guide, items };
+    })
+    .filter((group) => group.items.length > 0);
+
+  return (
+    <div className="space-y-10">
+      {groups.map((group) => (
+        <section key={group.slug}>
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
+            <Link href={`/${group.slug}`} className="hover:text-blue-600 dark:hover:text-blue-400 transition-colors">
+              {group.title}
+            </Link>
+          </h2>
+          <ul className="divide-y divide-gray-200 dark:divide-[#262626] border border-gray-200 dark:border-[#262626] rounded-lg">
+            {group.items.map(({ bookmark, chapterTitle }) => (
+              <ReadingListItem key={bookmark.id} bookmark={bookmark} chapterTitle={chapterTitle} />
+            ))}
+          </ul>
+        </section>
+      ))}
+    </div>
+  );
+}
+
+function rank(order: string[], slug: string): number {
+  const index = order.indexOf(slug);
+  return index === -1 ? order.length : index;
+}
+
+function ReadingListItem({ bookmark, chapterTitle }: { bookmark: Bookmark; chapterTitle?: string }) {
+  const href = `/${bookmark.repoName}/${bookmark.chapterSlug}${bookmark.section ? `#${bookmark.section.id}` : ''}`;
+
+  return (
+    <li className="flex items-center justify-between gap-4 p-4">
+      <div className="min-w-0">
+        <Link href={href} className="font-medium text-gray-900 dark:text-white hover:text-blue-600 dark:hover:text-blue-400 transition-colors">
+          {chapterTitle || bookmark.chapterSlug}
+        </Link>
+        {bookmark.section && (
+          <p className="text-sm text-gray-600 dark:text-gray-400 truncate">› {bookmark.section.text}</p>
+        )}
+        {!chapterTitle && (
+          <p className="text-xs text-orange-600 dark:text-orange-400">This chapter is no longer in the guide.</p>
+        )}
+      </div>
+      <button
+        type="button"
+        onClick={() => setBookmarked(bookmark.repoName, bookmark.chapterSlug, bookmark.section, false)}
+        className="shrink-0 text-sm text-red-600 dark:text-red-400 hover:underline"
+      >
+        Remove
+      </button>
+    </li>
+  );
+}
@@ -26,14 +26,6 @@ export default function Roadmap({ groups, repoName }: RoadmapProps) {
     return match ? match[1] : '';
   };
 
-  const getChapterTitle = (chapterName: string) => {
-    return chapterName
-      .replace(/^\d+[-_]?/, '')
-      .replace('.md', '')
-      .replace(/_/g, ' ')
-      .replace(/\b\w/g, (l) => l.toUpperCase());
-  };
-
   return (
     <div className="mb-12">
       <h2 className="text-3xl font-bold text-gray-900 dark:text-white mb-8">Roadmap</h2>
@@ -62,7 +54,7 @@ export default function Roadmap({ groups, repoName }: RoadmapProps) {
                       </span>
                       <div className="flex-1 min-w-0">
                         <div className="text-sm font-medium text-gray-200 dark:text-gray-300 group-hover:text-white transition-colors mb-1">
-                          {getChapterTitle(chapter.name)}
+                          {chapter.title}
                         </div>
                         {chapter.description && (
                           <div className="text-xs text-gray-400 dark:text-gray-500 line-clamp-2">
@@ -123,7 +115,7 @@ export default function Roadmap({ groups, repoName }: RoadmapProps) {
                       </span>
                       <div className="flex-1 min-w-0">
                         <div className="text-sm font-medium text-gray-200 dark:text-gray-300 group-hover:text-white transition-colors mb-1">
-                          {getChapterTitle(chapter.name)}
+                          {chapter.title}
                         </div>
                         {chapter.description && (
                           <div className="text-xs text-gray-400 dark:text-gray-500 line-clamp-2">
@@ -1,43 +1,38 @@
 'use client';
 
-import React, { useEffect, useState } from 'react';
+import React from 'react';
 import Link from 'next/link';
 import { RoadmapTreeNode } from '@/lib/github';
+import { formatEstimatedTime } from '@/lib/chapter-meta';
+import { getChapterStatus, ChapterStatus } from '@/lib/progress-store';
+import { useGuideProgress } from '@/lib/use-guide-progress';
 
 interface RoadmapListProps {
     tree: RoadmapTreeNode;
     repoName: string;
+    chapterSlugs: string[];
 }
 
+const STATUS_LABELS: Record<ChapterStatus, string> = {
+    'not-started': 'Not started',
+    visited: 'Opened',
+    'in-progress': 'In progress',
+    completed: 'Completed',
+};
+
 interface FlattenedNode {
     id: string;
     label: string;
     type: 'root' | 'part' | 'chapter';
     slug?: string;
     description?: string;
+    difficulty?: RoadmapTreeNode['difficulty'];
+    estimatedMinutes?: number;
     depth: number;
 }
 
-export default function RoadmapList({ tree, repoName }: RoadmapListProps) {
-    const [completedChapters, setCompletedChapters] = useState<Set<string>>(new Set());
-
-    // Load completion status
-    useEffect(() => {
-        const loadProgress = () => {
-            const stored = localStorage.getItem(`progress_${repoName}`);
-            if (stored) {
-                try {
-                    setCompletedChapters(new Set(JSON.parse(stored)));
-                } catch (e) {
-                    console.error('Failed to parse progress', e);
-                }
-            }
-        };
-        loadProgress();
-        // Listen for storage events to update real-time if changed elsewhere
-        window.addEventListener('storage', loadProgress);
-        return () => window.removeEventListener('storage', loadProgress);
-    }, [repoName]);
+export default function RoadmapList({ tree, repoName, chapterSlugs }: RoadmapListProps) {
+    const { progress } = useGuideProgress(repoName, chapterSlugs);
 
     // Flatten the tree for list rendering
     const flattenTree = (node: RoadmapTreeNode, depth = 0): FlattenedNode[] => {
@@ -51,6 +46,8 @@ export default function RoadmapList({ tree, repoName }: RoadmapListProps) {
                 type: node.type,
                 slug: node.slug,
                 description: node.description,
+                difficulty: node.difficulty,
+                estimatedMinutes: node.estimatedMinutes,
                 depth,
             });
         }
@@ -65,25 +62,19 @@ export default function RoadmapList({ tree, repoName }: RoadmapListProps) {
 
     const flatNodes = flattenTree(tree);
 
-    // Helper to format numeric chapter ID (01, 02...)
+    // Helper to format numeric chapter ID (01, 02...) from the file name of nested slugs too
     const getChapterNumber = (slug?: string) => {
         if (!slug) return '';
-        const match = slug.match(/^(\d+)/);
+        const match = slug.split('/').pop()?.match(/^(\d+)/);
         return match ? match[1].padStart(2, '0') : '';
     };
 
-    // Helper to clean title
+    // Helper to clean title; chapter labels are already display titles
     const getTitle = (label: string, type: string) => {
         if (type === 'part') {
             return label.replace(/^part\s+\d+[:\s-]*/i, '').trim() || label;
         }
-        return label
-            .replace(/^\d+[-_]?/, '')
-            .replace(/_/g, ' ')
-            .replace('.md', '')
-            .split(' ')
-            .map(word => word.charAt(0).toUpperCase() + word.slice(1))
-            .join(' ');
+        return label;
     };
 
     return (
@@ -98,12 +89,16 @@ export default function RoadmapList({ tree, repoName }: RoadmapListProps) {
                                 <h3 className="text-xl font-bold text-gray-200 uppercase tracking-wide border-b border-gray-800 pb-2">
                                     {node.label}
                                 </h3>
+                                {node.description && (
+                                    <p className="mt-2 text-sm text-gray-400">{node.description}</p>
+                                )}
                             </div>
                         );
                     }
 
                     if (node.type === 'chapter') {
-                        const isCompleted = node.slug && completedChapters.has(node.slug);
+                        const status = node.slug ? getChapterStatus(progress.chapters[node.slug]) : 'not-started';
+                        const isCompleted = status === 'completed';
                         const chapterNum = getChapterNumber(node.slug);
 
                         return (
@@ -144,9 +139,14 @@ export default function RoadmapList({ tree, repoName }: RoadmapListProps) {
 
                                     {/* Right: Metadata & Status */}
                                     <div className="flex-shrink-0 flex items-center gap-4">
-                                        {/* Tags (static for now as requested) */}
-                                        <span className="hidden sm:inline-flex items-center px-2 py-1 rounded text-[10px] font-medium bg-gray-900 text-gray-500 border border-gray-800">
-                                            Chapter
+                                        {/* Tags from chapter frontmatter */}
+                                        {node.estimatedMinutes && (
+                                            <span className="hidden sm:inline-flex items-center px-2 py-1 rounded text-[10px] font-medium bg-gray-900 text-gray-500 border border-gray-800">
+                                                {formatEstimatedTime(node.estimatedMinutes)}
+                                            </span>
+                                        )}
+                                        <span className="hidden sm:inline-flex items-center px-2 py-1 rounded text-[10px] font-medium bg-gray-900 text-gray-500 border border-gray-800 capitalize">
+                                            {node.difficulty || 'Chapter'}
                                         </span>
 
                                         {/* Status Circle */}
@@ -154,14 +154,20 @@ export default function RoadmapList({ tree, repoName }: RoadmapListProps) {
                       w-6 h-6 rounded-full border-2 flex items-center justify-center transition-all
                       ${isCompleted
                                                 ? 'bg-green-500 border-green-500' // Filled green if checked
-                                                : 'border-gray-700 group-hover:border-gray-500' // Empty grey if not
+                                                : status === 'in-progress'
+                                                    ? 'border-blue-500'
+                                                    : 'border-gray-700 group-hover:border-gray-500' // Empty grey if not
                                             }
-                    `}>
+                    `}
+                                            title={STATUS_LABELS[status]}
+                                        >
                                             {isCompleted && (
                                                 <svg className="w-3.5 h-3.5 text-black" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
                                                 </svg>
                                             )}
+                                            {status === 'in-progress' && <div className="w-2.5 h-2.5 rounded-full bg-blue-500" />}
+                                            {status === 'visited' && <div className="w-1.5 h-1.5 rounded-full bg-gray-500" />}
                                         </div>
                                     </div>
                                 </div>
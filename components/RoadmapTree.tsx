@@ -100,14 +100,8 @@ function CustomNode({ data }: { data: CustomNodeData }): React.JSX.Element {
       const cleanLabel = label.replace(/^part\s+\d+[:\s-]*/i, '').trim();
       return cleanLabel || label;
     }
-    // "01_introduction" -> "Introduction"
-    return label
-      .replace(/^\d+[-_]?/, '')
-      .replace(/_/g, ' ')
-      .replace('.md', '')
-      .split(' ')
-      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
-      .join(' ');
+    // Chapter labels are already display titles (frontmatter or file name)
+    return label;
   };
 
   const Icon = () => {
@@ -10,32 +10,62 @@ interface SearchResult {
     description: string;
     url: string;
     category: string;
+    content?: string;
 }
 
 interface SearchProps {
-    data: SearchResult[];
+    /** Entries to search; when omitted, the site-wide index is fetched on first use */
+    data?: SearchResult[];
     placeholder?: string;
 }
 
+const SEARCH_INDEX_URL = '/search-index.json';
+
 /**
  * Global search component with fuzzy matching and keyboard shortcuts.
  * Supports Cmd+K / Ctrl+K to open search.
  */
 export function Search({ data, placeholder = 'Search guides...' }: SearchProps): React.JSX.Element {
+    const [entries, setEntries] = useState<SearchResult[] | null>(data ?? null);
     const [query, setQuery] = useState('');
     const [results, setResults] = useState<SearchResult[]>([]);
     const [isOpen, setIsOpen] = useState(false);
     const [selectedIndex, setSelectedIndex] = useState(0);
     const inputRef = useRef<HTMLInputElement>(null);
     const containerRef = useRef<HTMLDivElement>(null);
+    const indexRequested = useRef(false);
+
+    useEffect(() => {
+        if (data) setEntries(data);
+    }, [data]);
+
+    // Fetch the site-wide index the first time the search is used
+    const loadIndex = useCallback((): void => {
+        if (data || indexRequested.current) return;
+        indexRequested.current = true;
+        fetch(SEARCH_INDEX_URL)
+            .then((response) => (response.ok ? response.json() : []))
+            .then((loaded: SearchResult[]) => setEntries(loaded))
+            .catch((error) => {
+                console.error('Error loading search index:', error);
+                indexRequested.current = false;
+            });
+    }, [data]);
 
     // Initialize Fuse.js for fuzzy search
-    const fuse = React.useMemo(() => new Fuse(data, {
-        keys: ['title', 'description', 'category'],
+    const fuse = React.useMemo(() => new Fuse(entries || [], {
+        keys: [
+            { name: 'title', weight: 3 },
+            { name: 'category', weight: 1 },
+            { name: 'description', weight: 1 },
+            { name: 'content', weight: 1 },
+        ],
         threshold: 0.3,
+        // Matches can be anywhere in long section bodies
+        ignoreLocation: true,
         includeScore: true,
         minMatchCharLength: 2,
-    }), [data]);
+    }), [entries]);
 
     // Handle search
     useEffect(() => {
@@ -55,6 +85,7 @@ export function Search({ data, placeholder = 'Search guides...' }: SearchProps):
         const handleKeyDown = (e: KeyboardEvent): void => {
             if ((e.metaKey || e.ctrlKey) && e.key === 'k') {
                 e.preventDefault();
+                loadIndex();
                 inputRef.current?.focus();
             }
 
@@ -67,7 +98,7 @@ export function Search({ data, placeholder = 'Search guides...' }: SearchProps):
 
         document.addEventListener('keydown', handleKeyDown);
         return () => document.removeEventListener('keydown', handleKeyDown);
-    }, []);
+    }, [loadIndex]);
 
     // Handle keyboard navigation
     const handleKeyNavigation = useCallback((e: React.KeyboardEvent): void => {
@@ -136,7 +167,10 @@ export function Search({ data, placeholder = 'Search guides...' }: SearchProps):
                     value={query}
                     onChange={(e) => setQuery(e.target.value)}
                     onKeyDown={handleKeyNavigation}
-                    onFocus={() => query.length >= 2 && setIsOpen(true)}
+                    onFocus={() => {
+                        loadIndex();
+                        if (query.length >= 2) setIsOpen(true);
+                    }}
                     placeholder={placeholder}
                     className="w-full pl-10 pr-16 py-2.5 rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 placeholder-gray-500 dark:placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 focus:border-transparent transition-all"
                     aria-label="Search"
@@ -224,7 +258,9 @@ export function Search({ data, placeholder = 'Search guides...' }: SearchProps):
             {/* No results */}
             {isOpen && query.length >= 2 && results.length === 0 && (
                 <div className="absolute top-full mt-2 w-full bg-white dark:bg-gray-800 rounded-lg shadow-xl border border-gray-200 dark:border-gray-700 p-4 text-center z-50">
-                    <p className="text-gray-600 dark:text-gray-400">No results found for &quot;{query}&quot;</p>
+                    <p className="text-gray-600 dark:text-gray-400">
+                        {entries ? <>No results found for &quot;{query}&quot;</> : 'Loading search index...'}
+                    </p>
                 </div>
             )}
         </div>
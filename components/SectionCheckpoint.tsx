@@ -0,0 +1,30 @@
+'use client';
+
+import { setSectionChecked } from '@/lib/progress-store';
+import { useGuideProgress } from '@/lib/use-guide-progress';
+
+interface SectionCheckpointProps {
+  repoName: string;
+  chapterSlug: string;
+  sectionId: string;
+}
+
+/**
+ * Checkbox next to an h2 to tick off a section of a long chapter
+ */
+export default function SectionCheckpoint({ repoName, chapterSlug, sectionId }: SectionCheckpointProps) {
+  const { progress, isHydrated } = useGuideProgress(repoName);
+  const checked = !!progress.chapters[chapterSlug]?.checkedSections?.includes(sectionId);
+
+  return (
+    <input
+      type="checkbox"
+      checked={checked}
+      disabled={!isHydrated}
+      onChange={(e) => setSectionChecked(repoName, chapterSlug, sectionId, e.target.checked)}
+      className="mr-3 w-5 h-5 align-middle rounded border-gray-300 dark:border-gray-600 accent-green-500 cursor-pointer"
+      aria-label="Mark section as done"
+      title="Mark section as done"
+    />
+  );
+}
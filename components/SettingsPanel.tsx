@@ -0,0 +1,239 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Dialog, DialogPanel, DialogTitle } from '@headlessui/react';
+import { exportLearnerData, importLearnerData } from '@/lib/learner-data';
+import {
+  generateSyncCode,
+  getSyncCode,
+  isSyncAvailable,
+  normalizeSyncCode,
+  setSyncCode,
+  syncLearnerData,
+} from '@/lib/progress-sync';
+
+interface SettingsPanelProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+type Status = { type: 'success' | 'error'; message: string } | null;
+
+/**
+ * Settings dialog opened from the header. Lets readers move their progress
+ * (and other browser-only data) between machines as a JSON file, or keep it
+ * in sync through the server when that is enabled.
+ */
+export default function SettingsPanel({ open, onClose }: SettingsPanelProps) {
+  const [status, setStatus] = useState<Status>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [syncAvailable, setSyncAvailable] = useState(false);
+  const [syncCode, setSyncCodeState] = useState<string | null>(null);
+  const [codeInput, setCodeInput] = useState('');
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setSyncCodeState(getSyncCode());
+    isSyncAvailable().then(setSyncAvailable);
+  }, [open]);
+
+  const runSync = async (code: string) => {
+    setIsSyncing(true);
+    try {
+      const updated = await syncLearnerData(code);
+      setStatus({
+        type: 'success',
+        message: updated > 0 ? `Synced, ${updated} ${updated === 1 ? 'entry' : 'entries'} updated from other devices.` : 'Synced.',
+      });
+    } catch (error) {
+      setStatus({ type: 'error', message: error instanceof Error ? error.message : 'Sync failed.' });
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const enableSync = (code: string) => {
+    setSyncCode(code);
+    setSyncCodeState(code);
+    setCodeInput('');
+    runSync(code);
+  };
+
+  const handleUseCode = () => {
+    const code = normalizeSyncCode(codeInput);
+    if (!code) {
+      setStatus({ type: 'error', message: 'That doesn’t look like a sync code (XXXX-XXXX-XXXX-XXXX).' });
+      return;
+    }
+    enableSync(code);
+  };
+
+  const disableSync = () => {
+    setSyncCode(null);
+    setSyncCodeState(null);
+    setStatus({ type: 'success', message: 'Sync turned off on this device. Your progress stays here.' });
+  };
+
+  const handleExport = () => {
+    const data = exportLearnerData();
+    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `implement-from-scratch-progress-${data.exportedAt.slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+    setStatus({ type: 'success', message: 'Progress exported.' });
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const changes = importLearnerData(await file.text());
+      const total = Object.values(changes).reduce((sum, count) => sum + count, 0);
+      setStatus({
+        type: 'success',
+        message: total > 0 ? `Imported ${total} updated ${total === 1 ? 'entry' : 'entries'}.` : 'Everything was already up to date.',
+      });
+    } catch (error) {
+      setStatus({ type: 'error', message: error instanceof Error ? error.message : 'Import failed.' });
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handleClose = () => {
+    setStatus(null);
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} className="relative z-[60]">
+      <div className="fixed inset-0 bg-black/60 backdrop-blur-sm" aria-hidden="true" />
+      <div className="fixed inset-0 flex items-center justify-center p-4">
+        <DialogPanel className="w-full max-w-md rounded-xl border border-gray-200 dark:border-[#262626] bg-white dark:bg-[#0a0a0a] p-6 shadow-xl">
+          <div className="flex items-center justify-between mb-6">
+            <DialogTitle className="text-lg font-semibold text-gray-900 dark:text-white">Settings</DialogTitle>
+            <button
+              type="button"
+              onClick={handleClose}
+              className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
+              aria-label="Close settings"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          <section>
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-1">Your data</h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+              Progress is saved in this browser only. Export it to a file to continue on another machine;
+              importing merges with what is here and keeps the most recent changes.
+            </p>
+            <div className="flex gap-3">
+              <button
+                type="button"
+                onClick={handleExport}
+                className="px-4 py-2 rounded-lg text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 transition-colors"
+              >
+                Export
+              </button>
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                className="px-4 py-2 rounded-lg text-sm font-medium border border-gray-300 dark:border-[#262626] text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-[#171717] transition-colors"
+              >
+                Import…
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleImport(file);
+                }}
+              />
+            </div>
+          </section>
+
+          {syncAvailable && (
+            <section className="mt-6 pt-6 border-t border-gray-200 dark:border-[#262626]">
+              <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-1">Sync across devices</h3>
+              {syncCode ? (
+                <>
+                  <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+                    Enter this code on your other devices. Anyone with the code can see and change the synced progress.
+                  </p>
+                  <code className="block mb-4 px-3 py-2 rounded bg-gray-100 dark:bg-[#171717] font-mono text-center tracking-wider text-gray-900 dark:text-white select-all">
+                    {syncCode}
+                  </code>
+                  <div className="flex gap-3">
+                    <button
+                      type="button"
+                      disabled={isSyncing}
+                      onClick={() => runSync(syncCode)}
+                      className="px-4 py-2 rounded-lg text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 transition-colors disabled:opacity-50"
+                    >
+                      {isSyncing ? 'Syncing…' : 'Sync now'}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={disableSync}
+                      className="px-4 py-2 rounded-lg text-sm font-medium border border-gray-300 dark:border-[#262626] text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-[#171717] transition-colors"
+                    >
+                      Turn off
+                    </button>
+                  </div>
+                </>
+              ) : (
+                <>
+                  <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+                    Keep progress in sync between browsers with an anonymous sync code. No account needed.
+                  </p>
+                  <button
+                    type="button"
+                    onClick={() => enableSync(generateSyncCode())}
+                    className="mb-3 px-4 py-2 rounded-lg text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 transition-colors"
+                  >
+                    Create a sync code
+                  </button>
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={codeInput}
+                      onChange={(e) => setCodeInput(e.target.value)}
+                      placeholder="Or enter a code from another device"
+                      className="flex-1 min-w-0 px-3 py-2 rounded-lg text-sm border border-gray-300 dark:border-[#262626] bg-white dark:bg-[#0a0a0a] text-gray-900 dark:text-gray-100 font-mono"
+                      aria-label="Sync code"
+                    />
+                    <button
+                      type="button"
+                      onClick={handleUseCode}
+                      disabled={!codeInput.trim()}
+                      className="px-4 py-2 rounded-lg text-sm font-medium border border-gray-300 dark:border-[#262626] text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-[#171717] transition-colors disabled:opacity-50"
+                    >
+                      Use code
+                    </button>
+                  </div>
+                </>
+              )}
+            </section>
+          )}
+
+          {status && (
+            <p
+              role="status"
+              className={`mt-4 text-sm ${status.type === 'error' ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}
+            >
+              {status.message}
+            </p>
+          )}
+        </DialogPanel>
+      </div>
+    </Dialog>
+  );
+}
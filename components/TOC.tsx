@@ -1,5 +1,6 @@
 import Link from 'next/link';
 import { Chapter } from '@/lib/github';
+import { getChapterNumber } from '@/lib/chapter-meta';
 
 interface TOCProps {
   chapters: Chapter[];
@@ -16,12 +17,8 @@ export default function TOC({ chapters, repoName, currentChapter }: TOCProps) {
     <div className="space-y-3">
       {chapters.map((chapter, index) => {
         const isActive = currentChapter === chapter.slug;
-        const chapterNumber = chapter.name.match(/^(\d+)/)?.[1] || '';
-        const chapterTitle = chapter.name
-          .replace(/^\d+[-_]?/, '')
-          .replace('.md', '')
-          .replace(/_/g, ' ')
-          .replace(/\b\w/g, (l) => l.toUpperCase());
+        const chapterNumber = getChapterNumber(chapter.name);
+        const chapterTitle = chapter.title;
 
         return (
           <Link
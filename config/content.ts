@@ -0,0 +1,45 @@
+export type ContentSourceType = 'github' | 'filesystem';
+
+export interface ContentConfig {
+  source: ContentSourceType;
+  rootDir: string;
+  github: {
+    cacheTtlSeconds: number;
+    cacheDir?: string;
+    snapshot: boolean;
+  };
+}
+
+/**
+ * Where guide content is read from.
+ *
+ * - `github` (default): the GitHub REST API
+ * - `filesystem`: checked-out repositories under `rootDir`, one directory per repo
+ *   (e.g. `content/shell-c/README.md`, `content/shell-c/docs/01_introduction.md`)
+ *
+ * Set `CONTENT_SOURCE=filesystem` and optionally `CONTENT_DIR` to build offline.
+ *
+ * GitHub responses are reused for `GITHUB_CACHE_TTL` seconds within a process
+ * (default 300; 0 revalidates every request).
+ * Setting `GITHUB_CACHE_DIR` also persists them with their ETags between builds,
+ * so unchanged files are revalidated instead of downloaded again.
+ *
+ * Each repository is downloaded once as an archive pinned to the current commit
+ * of its configured `ref` (the default branch unless config/repos.ts names one);
+ * set `GITHUB_SNAPSHOT=false` to fetch files one by one.
+ */
+// Seconds from the environment; unset or non-numeric values use the fallback, 0 is kept
+function readSeconds(value: string | undefined, fallback: number): number {
+  const seconds = value?.trim() ? Number(value) : NaN;
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds : fallback;
+}
+
+export const contentConfig: ContentConfig = {
+  source: process.env.CONTENT_SOURCE === 'filesystem' ? 'filesystem' : 'github',
+  rootDir: process.env.CONTENT_DIR || 'content',
+  github: {
+    cacheTtlSeconds: readSeconds(process.env.GITHUB_CACHE_TTL, 300),
+    cacheDir: process.env.GITHUB_CACHE_DIR || undefined,
+    snapshot: process.env.GITHUB_SNAPSHOT !== 'false',
+  },
+};
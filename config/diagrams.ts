@@ -0,0 +1,18 @@
+export type AsciiDiagramMode = 'text' | 'svg';
+
+export interface DiagramConfig {
+  /** How fences detected as ASCII art are shown, unless a chapter's frontmatter says otherwise */
+  asciiDiagrams: AsciiDiagramMode;
+}
+
+/**
+ * Rendering of diagrams in guide content.
+ *
+ * ASCII art is shown as text by default. Set `ASCII_DIAGRAMS=svg` to convert
+ * every fence that looks like ASCII art to SVG at build time; a chapter can
+ * choose for itself with `ascii_diagrams: svg` or `text` in its frontmatter,
+ * and an `ascii-svg` fence is always converted.
+ */
+export const diagramConfig: DiagramConfig = {
+  asciiDiagrams: process.env.ASCII_DIAGRAMS === 'svg' ? 'svg' : 'text',
+};
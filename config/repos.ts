@@ -1,3 +1,19 @@
-export const repos = [
+export interface GuideRepoConfig {
+  /** GitHub user or organization; defaults to implement-from-scratch */
+  owner?: string;
+  repo: string;
+  /** Branch, tag or commit to read; defaults to the repository's default branch */
+  ref?: string;
+  /** Folder holding the chapters; defaults to `docs` */
+  docsPath?: string;
+  /** URL segment for the guide; defaults to the repo name, or `owner--repo` when names collide */
+  slug?: string;
+}
+
+/**
+ * Guides shown on the website. A plain string is a repository in the
+ * implement-from-scratch organization.
+ */
+export const repos: Array<string | GuideRepoConfig> = [
   'shell-c',
 ];
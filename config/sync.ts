@@ -0,0 +1,24 @@
+export interface SyncConfig {
+  enabled: boolean;
+  /** Directory the file storage keeps one JSON document per sync code in */
+  dir: string;
+  /** Largest document accepted, in bytes */
+  maxBytes: number;
+  /** Most sync codes stored; new codes are refused beyond it */
+  maxDocuments: number;
+}
+
+/**
+ * Optional cross-device progress sync through `/api/progress`.
+ *
+ * Off by default, since it needs a writable server. Set `PROGRESS_SYNC=true` to
+ * enable it; documents are stored as files under `PROGRESS_SYNC_DIR`
+ * (default `.data/progress-sync`), at most `PROGRESS_SYNC_MAX_DOCUMENTS` of them
+ * (default 10000). Other backends implement `SyncStorage` in lib/sync-storage.ts.
+ */
+export const syncConfig: SyncConfig = {
+  enabled: process.env.PROGRESS_SYNC === 'true',
+  dir: process.env.PROGRESS_SYNC_DIR || '.data/progress-sync',
+  maxBytes: Number(process.env.PROGRESS_SYNC_MAX_BYTES) || 512 * 1024,
+  maxDocuments: Number(process.env.PROGRESS_SYNC_MAX_DOCUMENTS) || 10000,
+};
@@ -0,0 +1,196 @@
+import type { LearnerDataStore } from './learner-data';
+import type { TextQuoteAnchor } from './text-anchor';
+
+/**
+ * Highlights and notes per guide, kept in localStorage under `notes_<repo>`.
+ * Annotations point into a chapter by slug and a text quote anchor (lib/text-anchor.ts),
+ * so they stay attached when the chapter is edited around them.
+ * Browser-only: every function is a no-op (or returns no annotations) on the server.
+ */
+
+export const ANNOTATIONS_SCHEMA_VERSION = 1;
+
+const STORAGE_KEY_PREFIX = 'notes_';
+const CHANGE_EVENT = 'guide-annotations-change';
+
+export interface Annotation {
+  id: string;
+  chapterSlug: string;
+  anchor: TextQuoteAnchor;
+  /** Empty for a plain highlight */
+  note: string;
+  createdAt: number;
+  updatedAt: number;
+  /** Deleted annotations are kept as tombstones so deletions win when merging older copies */
+  deletedAt?: number;
+}
+
+interface GuideAnnotations {
+  version: typeof ANNOTATIONS_SCHEMA_VERSION;
+  annotations: Record<string, Annotation>;
+}
+
+function getStorageKey(repoName: string): string {
+  return `${STORAGE_KEY_PREFIX}${repoName}`;
+}
+
+function createEmpty(): GuideAnnotations {
+  return { version: ANNOTATIONS_SCHEMA_VERSION, annotations: {} };
+}
+
+function readStored(repoName: string): GuideAnnotations {
+  if (typeof window === 'undefined') return createEmpty();
+
+  try {
+    const stored = localStorage.getItem(getStorageKey(repoName));
+    if (!stored) return createEmpty();
+
+    const parsed = JSON.parse(stored) as unknown;
+    if (isGuideAnnotations(parsed)) return parsed;
+  } catch (error) {
+    console.error('Failed to load notes from localStorage:', error);
+  }
+  return createEmpty();
+}
+
+function writeStored(repoName: string, data: GuideAnnotations): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    localStorage.setItem(getStorageKey(repoName), JSON.stringify(data));
+    window.dispatchEvent(new CustomEvent(CHANGE_EVENT, { detail: { repoName } }));
+  } catch (error) {
+    console.error('Failed to save notes to localStorage:', error);
+  }
+}
+
+/**
+ * A guide's annotations (optionally one chapter's), roughly in reading order
+ */
+export function readAnnotations(repoName: string, chapterSlug?: string): Annotation[] {
+  return Object.values(readStored(repoName).annotations)
+    .filter((annotation) => !annotation.deletedAt && (!chapterSlug || annotation.chapterSlug === chapterSlug))
+    .sort((a, b) => a.anchor.start - b.anchor.start || a.createdAt - b.createdAt);
+}
+
+export function addAnnotation(repoName: string, chapterSlug: string, anchor: TextQuoteAnchor, note = ''): Annotation {
+  const now = Date.now();
+  const annotation: Annotation = {
+    id: `${now.toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+    chapterSlug,
+    anchor,
+    note,
+    createdAt: now,
+    updatedAt: now,
+  };
+  const data = readStored(repoName);
+  writeStored(repoName, { ...data, annotations: { ...data.annotations, [annotation.id]: annotation } });
+  return annotation;
+}
+
+export function updateAnnotationNote(repoName: string, id: string, note: string): void {
+  const data = readStored(repoName);
+  const annotation = data.annotations[id];
+  if (!annotation || annotation.deletedAt || annotation.note === note) return;
+
+  writeStored(repoName, {
+    ...data,
+    annotations: { ...data.annotations, [id]: { ...annotation, note, updatedAt: Date.now() } },
+  });
+}
+
+export function deleteAnnotation(repoName: string, id: string): void {
+  const data = readStored(repoName);
+  const annotation = data.annotations[id];
+  if (!annotation || annotation.deletedAt) return;
+
+  const now = Date.now();
+  writeStored(repoName, {
+    ...data,
+    annotations: { ...data.annotations, [id]: { ...annotation, note: '', deletedAt: now, updatedAt: now } },
+  });
+}
+
+/**
+ * Calls `listener` whenever the guide's annotations change, in this tab or another
+ */
+export function subscribeToAnnotations(repoName: string, listener: () => void): () => void {
+  const key = getStorageKey(repoName);
+  const onChange = (event: Event) => {
+    if ((event as CustomEvent<{ repoName: string }>).detail?.repoName === repoName) listener();
+  };
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === key || event.key === null) listener();
+  };
+
+  window.addEventListener(CHANGE_EVENT, onChange);
+  window.addEventListener('storage', onStorage);
+  return () => {
+    window.removeEventListener(CHANGE_EVENT, onChange);
+    window.removeEventListener('storage', onStorage);
+  };
+}
+
+/**
+ * Export/import adapter (see lib/learner-data.ts): every guide's annotations,
+ * tombstones included, merged one by one with the most recently updated winning
+ */
+export const annotationsData: LearnerDataStore<Record<string, GuideAnnotations>> = {
+  id: 'annotations',
+
+  collect() {
+    const guides: Record<string, GuideAnnotations> = {};
+    if (typeof window === 'undefined') return guides;
+
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (!key?.startsWith(STORAGE_KEY_PREFIX)) continue;
+      const repoName = key.slice(STORAGE_KEY_PREFIX.length);
+      const data = readStored(repoName);
+      if (Object.keys(data.annotations).length > 0) {
+        guides[repoName] = data;
+      }
+    }
+    return guides;
+  },
+
+  merge(incoming) {
+    let changed = 0;
+    Object.entries(incoming || {}).forEach(([repoName, guide]) => {
+      if (!isGuideAnnotations(guide)) return;
+
+      const local = readStored(repoName);
+      const annotations = { ...local.annotations };
+      let guideChanged = 0;
+      Object.values(guide.annotations).forEach((annotation) => {
+        if (typeof annotation?.id !== 'string' || typeof annotation.updatedAt !== 'number' || !annotation.anchor) return;
+        const current = annotations[annotation.id];
+        if (!current || annotation.updatedAt > current.updatedAt) {
+          annotations[annotation.id] = annotation;
+          guideChanged++;
+        }
+      });
+
+      if (guideChanged > 0) {
+        writeStored(repoName, { ...local, annotations });
+        changed += guideChanged;
+      }
+    });
+    return changed;
+  },
+
+  subscribe(listener) {
+    window.addEventListener(CHANGE_EVENT, listener);
+    return () => window.removeEventListener(CHANGE_EVENT, listener);
+  },
+};
+
+function isGuideAnnotations(value: unknown): value is GuideAnnotations {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (value as GuideAnnotations).version === ANNOTATIONS_SCHEMA_VERSION &&
+    typeof (value as GuideAnnotations).annotations === 'object' &&
+    (value as GuideAnnotations).annotations !== null
+  );
+}
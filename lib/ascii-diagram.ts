@@ -0,0 +1,98 @@
+/**
+ * Detection of ASCII art in code fences and its conversion to SVG with aasvg.
+ */
+
+/** Fence languages that always mean ASCII art */
+export const ASCII_DIAGRAM_LANGUAGES = ['ascii', 'ascii-svg', 'diagram', 'art', 'flowchart'];
+
+/** Fence languages checked with isAsciiDiagram; code in any other language is never a diagram */
+export const PLAIN_TEXT_LANGUAGES = ['', 'text', 'txt', 'plain', 'plaintext'];
+
+const BOX_DRAWING = /[─-╿]/;
+// "+-----" or "-----+": the top or bottom edge of a box
+const BOX_EDGE = /\+[-=]{2,}|[-=]{2,}\+/;
+const ARROW = /-{2,}>|<-{2,}|={2,}>|<={2,}/;
+// A "|" standing on its own, as a vertical connector rather than an operator
+const VERTICAL_CONNECTOR = /(^|\s)[|v^](\s|$)/;
+const CODE_LINE = /[;{}]\s*$|^\s*(#\s*include|#\s*define|\/\/|\/\*|\*\s|\$ |>>> )/;
+
+/**
+ * Whether a fence without a language looks like a diagram: box-drawing
+ * characters on several lines, boxes drawn with "+---+", or arrows with
+ * connectors. Text where lines read like code (ending in ";" or braces,
+ * comments, shell prompts) is not, whatever "|" and "*" it contains.
+ */
+export function isAsciiDiagram(source: string): boolean {
+  const lines = source.split('\n').filter((line) => line.trim());
+  if (lines.length < 2) return false;
+
+  const count = (pattern: RegExp) => lines.filter((line) => pattern.test(line)).length;
+  if (count(CODE_LINE) > lines.length * 0.2) return false;
+
+  if (count(BOX_DRAWING) >= 2) return true;
+  const edges = count(BOX_EDGE);
+  if (edges >= 2) return true;
+  return count(ARROW) >= 1 && (edges >= 1 || count(VERTICAL_CONNECTOR) >= 2);
+}
+
+// aasvg draws "-", "|", "+" and a few heavy and double line characters; map the
+// common light box-drawing set onto them. Rounded corners become "." and "'",
+// which aasvg draws as curves.
+const BOX_DRAWING_TO_ASCII: Record<string, string> = {
+  '─': '-',
+  '│': '|',
+  '┌': '+',
+  '┐': '+',
+  '└': '+',
+  '┘': '+',
+  '├': '+',
+  '┤': '+',
+  '┬': '+',
+  '┴': '+',
+  '┼': '+',
+  '╔': '+',
+  '╗': '+',
+  '╚': '+',
+  '╝': '+',
+  '╠': '+',
+  '╣': '+',
+  '╦': '+',
+  '╩': '+',
+  '╬': '+',
+  '╭': '.',
+  '╮': '.',
+  '╰': "'",
+  '╯': "'",
+  '▶': '>',
+  '►': '>',
+  '◀': '<',
+  '◄': '<',
+  '▼': 'v',
+  '▲': '^',
+  '→': '>',
+  '←': '<',
+  '↓': 'v',
+  '↑': '^',
+};
+
+/**
+ * Converts ASCII art to an SVG whose lines and text use `currentColor`, so it
+ * follows the page theme. Returns null if aasvg can't make sense of it.
+ */
+export async function asciiDiagramToSvg(source: string): Promise<string | null> {
+  try {
+    const { diagramToSVG } = await import('aasvg/markdeep-diagram.js');
+    const ascii = Array.from(source.replace(/\t/g, '    '), (char) => BOX_DRAWING_TO_ASCII[char] || char).join('');
+    const svg = diagramToSVG(ascii, { style: {} });
+    if (!svg.includes('<path') && !svg.includes('<polygon') && !svg.includes('<circle')) {
+      // Nothing was recognized as a line; the text alone is better shown as text
+      return null;
+    }
+    return svg
+      .replace(/(fill|stroke)="black"/g, '$1="currentColor"')
+      .replace('<g class="text">', '<g class="text" fill="currentColor">');
+  } catch (error) {
+    console.error('Error converting ASCII diagram:', error);
+    return null;
+  }
+}
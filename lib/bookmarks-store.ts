@@ -0,0 +1,157 @@
+import type { LearnerDataStore } from './learner-data';
+
+/**
+ * Bookmarked chapters and sections across all guides, kept in localStorage under `bookmarks`.
+ * Browser-only: every function is a no-op (or returns no bookmarks) on the server.
+ */
+
+export const BOOKMARKS_SCHEMA_VERSION = 1;
+
+const STORAGE_KEY = 'bookmarks';
+const CHANGE_EVENT = 'bookmarks-change';
+
+export interface Bookmark {
+  id: string;
+  repoName: string;
+  chapterSlug: string;
+  /** Set when a heading rather than the whole chapter is bookmarked */
+  section?: { id: string; text: string };
+  createdAt: number;
+  updatedAt: number;
+  /** Removed bookmarks are kept as tombstones so removals win when merging older copies */
+  deletedAt?: number;
+}
+
+interface StoredBookmarks {
+  version: typeof BOOKMARKS_SCHEMA_VERSION;
+  bookmarks: Record<string, Bookmark>;
+}
+
+/**
+ * Bookmarks are identified by what they point at, so bookmarking the same
+ * section on two devices merges into one entry
+ */
+export function getBookmarkId(repoName: string, chapterSlug: string, sectionId?: string): string {
+  return `${repoName}/${chapterSlug}${sectionId ? `#${sectionId}` : ''}`;
+}
+
+function createEmpty(): StoredBookmarks {
+  return { version: BOOKMARKS_SCHEMA_VERSION, bookmarks: {} };
+}
+
+function readStored(): StoredBookmarks {
+  if (typeof window === 'undefined') return createEmpty();
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return createEmpty();
+
+    const parsed = JSON.parse(stored) as unknown;
+    if (isStoredBookmarks(parsed)) return parsed;
+  } catch (error) {
+    console.error('Failed to load bookmarks from localStorage:', error);
+  }
+  return createEmpty();
+}
+
+function writeStored(data: StoredBookmarks): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+    window.dispatchEvent(new CustomEvent(CHANGE_EVENT));
+  } catch (error) {
+    console.error('Failed to save bookmarks to localStorage:', error);
+  }
+}
+
+/**
+ * All bookmarks, most recently added first
+ */
+export function readBookmarks(): Bookmark[] {
+  return Object.values(readStored().bookmarks)
+    .filter((bookmark) => !bookmark.deletedAt)
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export function setBookmarked(
+  repoName: string,
+  chapterSlug: string,
+  section: { id: string; text: string } | undefined,
+  bookmarked: boolean
+): void {
+  const data = readStored();
+  const id = getBookmarkId(repoName, chapterSlug, section?.id);
+  const current = data.bookmarks[id];
+  if (bookmarked === (!!current && !current.deletedAt)) return;
+
+  const now = Date.now();
+  const next: Bookmark = bookmarked
+    ? { id, repoName, chapterSlug, section, createdAt: now, updatedAt: now }
+    : { ...current, deletedAt: now, updatedAt: now };
+  writeStored({ ...data, bookmarks: { ...data.bookmarks, [id]: next } });
+}
+
+/**
+ * Calls `listener` whenever bookmarks change, in this tab or another
+ */
+export function subscribeToBookmarks(listener: () => void): () => void {
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEY || event.key === null) listener();
+  };
+
+  window.addEventListener(CHANGE_EVENT, listener);
+  window.addEventListener('storage', onStorage);
+  return () => {
+    window.removeEventListener(CHANGE_EVENT, listener);
+    window.removeEventListener('storage', onStorage);
+  };
+}
+
+/**
+ * Export/import adapter (see lib/learner-data.ts): all bookmarks, tombstones
+ * included, merged one by one with the most recently updated winning
+ */
+export const bookmarksData: LearnerDataStore<StoredBookmarks> = {
+  id: 'bookmarks',
+
+  collect() {
+    return readStored();
+  },
+
+  merge(incoming) {
+    if (!isStoredBookmarks(incoming)) return 0;
+
+    const local = readStored();
+    const bookmarks = { ...local.bookmarks };
+    let changed = 0;
+    Object.values(incoming.bookmarks).forEach((bookmark) => {
+      if (typeof bookmark?.id !== 'string' || typeof bookmark.updatedAt !== 'number') return;
+      const current = bookmarks[bookmark.id];
+      if (!current || bookmark.updatedAt > current.updatedAt) {
+        bookmarks[bookmark.id] = bookmark;
+        changed++;
+      }
+    });
+
+    if (changed > 0) {
+      writeStored({ ...local, bookmarks });
+    }
+    return changed;
+  },
+
+  subscribe(listener) {
+    window.addEventListener(CHANGE_EVENT, listener);
+    return () => window.removeEventListener(CHANGE_EVENT, listener);
+  },
+};
+
+function isStoredBookmarks(value: unknown): value is StoredBookmarks {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (value as StoredBookmarks).version === BOOKMARKS_SCHEMA_VERSION &&
+    typeof (value as StoredBookmarks).bookmarks === 'object' &&
+    (value as StoredBookmarks).bookmarks !== null
+  );
+}
@@ -0,0 +1,137 @@
+import matter from 'gray-matter';
+import type { AsciiDiagramMode } from '@/config/diagrams';
+
+export type ChapterDifficulty = 'beginner' | 'intermediate' | 'advanced';
+
+/**
+ * Chapter metadata from YAML frontmatter, with filename-derived fallbacks:
+ *
+ * ---
+ * title: Forking Processes
+ * order: 2
+ * summary: Run programs in child processes with fork and exec.
+ * tags: [processes, syscalls]
+ * difficulty: intermediate
+ * estimated_minutes: 45
+ * prerequisites: [01_introduction]
+ * ascii_diagrams: svg
+ * ---
+ */
+export interface ChapterMeta {
+  title: string;
+  order?: number;
+  summary?: string;
+  tags: string[];
+  difficulty?: ChapterDifficulty;
+  estimatedMinutes?: number;
+  /** Slugs of chapters to read first */
+  prerequisites: string[];
+  /** Overrides config/diagrams.ts for the chapter's ASCII art */
+  asciiDiagrams?: AsciiDiagramMode;
+}
+
+const DIFFICULTY_ALIASES: Record<string, ChapterDifficulty> = {
+  beginner: 'beginner',
+  easy: 'beginner',
+  intermediate: 'intermediate',
+  medium: 'intermediate',
+  advanced: 'advanced',
+  hard: 'advanced',
+};
+
+/**
+ * Maps a difficulty and its aliases ("easy", "hard", ...) to a ChapterDifficulty
+ */
+export function normalizeDifficulty(value: string): ChapterDifficulty | undefined {
+  return DIFFICULTY_ALIASES[value.trim().toLowerCase()];
+}
+
+/**
+ * Derives a display title from a chapter file name: "02_process_execution.md" -> "Process Execution"
+ */
+export function formatChapterTitle(fileName: string): string {
+  return fileName
+    .replace(/^\d+[-_]?/, '')
+    .replace(/\.md$/, '')
+    .replace(/[_-]/g, ' ')
+    .replace(/\b\w/g, (l) => l.toUpperCase());
+}
+
+/**
+ * Extracts the number prefix of a chapter file name ("02_process.md" -> "02")
+ */
+export function getChapterNumber(fileName: string): string {
+  return fileName.match(/^(\d+)/)?.[1] || '';
+}
+
+/**
+ * Parses a chapter's frontmatter into typed metadata.
+ * Unknown keys are ignored and malformed values fall back to the file name heuristics.
+ */
+export function parseChapterMeta(content: string, fileName: string): ChapterMeta {
+  let data: Record<string, unknown> = {};
+  try {
+    data = matter(content).data;
+  } catch (error) {
+    console.error(`Error parsing frontmatter of ${fileName}:`, error);
+  }
+
+  const title = asString(data.title);
+  const difficulty = asString(data.difficulty);
+  const asciiDiagrams = asString(data.ascii_diagrams);
+
+  return {
+    title: title || formatChapterTitle(fileName),
+    order: asNumber(data.order),
+    summary: asString(data.summary) || asString(data.description),
+    tags: asStringList(data.tags),
+    difficulty: difficulty ? normalizeDifficulty(difficulty) : undefined,
+    estimatedMinutes: parseMinutes(data.estimated_minutes ?? data.estimatedMinutes ?? data.time),
+    prerequisites: asStringList(data.prerequisites).map((slug) => slug.replace(/^\.\//, '').replace(/\.md$/, '')),
+    asciiDiagrams: asciiDiagrams === 'svg' || asciiDiagrams === 'text' ? asciiDiagrams : undefined,
+  };
+}
+
+/**
+ * Formats minutes as "45 min" or "1 h 30 min"
+ */
+export function formatEstimatedTime(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest} min`;
+  return rest === 0 ? `${hours} h` : `${hours} h ${rest} min`;
+}
+
+function asString(value: unknown): string | undefined {
+  if (typeof value === 'string' && value.trim()) return value.trim();
+  if (typeof value === 'number') return String(value);
+  return undefined;
+}
+
+function asNumber(value: unknown): number | undefined {
+  const number = typeof value === 'string' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+}
+
+function asStringList(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.map(asString).filter((item): item is string => !!item);
+  }
+  // Also accept "a, b, c"
+  const single = asString(value);
+  return single ? single.split(',').map((item) => item.trim()).filter(Boolean) : [];
+}
+
+// Accepts 45, "45", "45 min", "1h 30m" or "1.5h"
+function parseMinutes(value: unknown): number | undefined {
+  const direct = asNumber(value);
+  if (direct !== undefined) return direct > 0 ? Math.round(direct) : undefined;
+
+  const text = asString(value)?.toLowerCase();
+  if (!text) return undefined;
+
+  const hours = /([\d.]+)\s*h/.exec(text);
+  const minutes = /([\d.]+)\s*m/.exec(text);
+  const total = (hours ? parseFloat(hours[1]) * 60 : 0) + (minutes ? parseFloat(minutes[1]) : 0);
+  return total > 0 ? Math.round(total) : undefined;
+}
@@ -0,0 +1,46 @@
+/**
+ * The language the reader last picked in a code group (components/CodeGroup.tsx),
+ * kept in localStorage under `preferred-code-language` so every group in every
+ * guide opens on it. Browser-only: reads return null on the server.
+ */
+
+const STORAGE_KEY = 'preferred-code-language';
+const CHANGE_EVENT = 'preferred-code-language-change';
+
+export function readPreferredCodeLanguage(): string | null {
+  if (typeof window === 'undefined') return null;
+
+  try {
+    return localStorage.getItem(STORAGE_KEY);
+  } catch (error) {
+    console.error('Failed to load preferred code language from localStorage:', error);
+    return null;
+  }
+}
+
+export function setPreferredCodeLanguage(language: string): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    localStorage.setItem(STORAGE_KEY, language);
+    window.dispatchEvent(new Event(CHANGE_EVENT));
+  } catch (error) {
+    console.error('Failed to save preferred code language to localStorage:', error);
+  }
+}
+
+/**
+ * Calls `listener` when the preference changes in this tab or another one
+ */
+export function subscribeToPreferredCodeLanguage(listener: () => void): () => void {
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEY || event.key === null) listener();
+  };
+
+  window.addEventListener(CHANGE_EVENT, listener);
+  window.addEventListener('storage', onStorage);
+  return () => {
+    window.removeEventListener(CHANGE_EVENT, listener);
+    window.removeEventListener('storage', onStorage);
+  };
+}
@@ -0,0 +1,65 @@
+import { contentConfig } from '@/config/content';
+import { createGitHubSource } from './github-source';
+import { createFilesystemSource } from './filesystem-source';
+import type { GuideRepo } from './repos';
+import type { GuideTaxonomy } from './guide-taxonomy';
+
+export interface Repository {
+  /** URL segment the guide is served under */
+  slug: string;
+  owner: string;
+  name: string;
+  description: string | null;
+  full_name: string;
+  default_branch: string;
+  /** Ref content is read from: the configured ref, or the default branch */
+  ref: string;
+  docsPath: string;
+  /** GitHub topics of the repository */
+  topics?: string[];
+  /** When the repository last received a push (ISO 8601) */
+  pushed_at?: string | null;
+  readmeTitle?: string;
+  readmeDescription?: string | null;
+  /** Number of chapters in the guide (set by getRepositoriesWithDocs) */
+  chapterCount?: number;
+  /** Tags and filter values (set by getRepositoriesWithDocs) */
+  taxonomy?: GuideTaxonomy;
+}
+
+export interface RepoContent {
+  name: string;
+  path: string;
+  type: 'file' | 'dir';
+  download_url: string | null;
+}
+
+/**
+ * Backend that guide content is read from.
+ * Every accessor in lib/github.ts goes through the configured source, so pages
+ * don't need to know whether content comes from the GitHub API or from disk.
+ */
+export interface ContentSource {
+  /** Returns repository metadata, throwing if the repository does not exist */
+  getRepoInfo(guide: GuideRepo): Promise<Repository>;
+  /** Lists a directory, or returns an empty array if it does not exist */
+  listDirectory(guide: GuideRepo, path: string): Promise<RepoContent[]>;
+  /** Reads a file as UTF-8 text, or returns null if it does not exist */
+  readFile(guide: GuideRepo, path: string, ref?: string): Promise<string | null>;
+  /** Commit (or ref) files are currently read at, so links can point at the same lines */
+  getContentRef(guide: GuideRepo): Promise<string>;
+}
+
+let source: ContentSource | null = null;
+
+/**
+ * Returns the content source selected in config/content.ts
+ */
+export function getContentSource(): ContentSource {
+  if (!source) {
+    source = contentConfig.source === 'filesystem'
+      ? createFilesystemSource(contentConfig.rootDir)
+      : createGitHubSource(contentConfig.github);
+  }
+  return source;
+}
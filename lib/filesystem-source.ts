@@ -0,0 +1,78 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { ContentSource, Repository, RepoContent } from './content-source';
+import type { GuideRepo } from './repos';
+
+/**
+ * Content source backed by checked-out repositories on disk.
+ * Each guide lives in a directory under `rootDir` named after its slug; refs are
+ * ignored since the working tree is served as-is.
+ */
+export function createFilesystemSource(rootDir: string): ContentSource {
+  const root = path.resolve(rootDir);
+
+  // Resolves a repo-relative path, refusing anything that escapes the repo directory
+  const resolvePath = (guide: GuideRepo, relativePath: string): string | null => {
+    const repoDir = path.join(root, guide.slug);
+    const resolved = path.resolve(repoDir, relativePath || '.');
+    if (resolved !== repoDir && !resolved.startsWith(repoDir + path.sep)) {
+      return null;
+    }
+    return resolved;
+  };
+
+  return {
+    async getRepoInfo(guide: GuideRepo): Promise<Repository> {
+      const repoDir = resolvePath(guide, '.');
+      const stat = repoDir ? await fs.stat(repoDir).catch(() => null) : null;
+      if (!stat?.isDirectory()) {
+        throw new Error(`Repository ${guide.owner}/${guide.repo} not found in ${root}`);
+      }
+      return {
+        slug: guide.slug,
+        owner: guide.owner,
+        name: guide.repo,
+        description: null,
+        full_name: `${guide.owner}/${guide.repo}`,
+        default_branch: 'main',
+        ref: guide.ref || 'main',
+        docsPath: guide.docsPath,
+        pushed_at: stat.mtime.toISOString(),
+      };
+    },
+
+    async listDirectory(guide: GuideRepo, dirPath: string): Promise<RepoContent[]> {
+      const resolved = resolvePath(guide, dirPath);
+      if (!resolved) return [];
+
+      try {
+        const entries = await fs.readdir(resolved, { withFileTypes: true });
+        return entries
+          .filter((entry) => entry.isFile() || entry.isDirectory())
+          .map((entry) => ({
+            name: entry.name,
+            path: path.posix.join(dirPath, entry.name),
+            type: entry.isDirectory() ? 'dir' : 'file',
+            download_url: null,
+          }));
+      } catch (error) {
+        return [];
+      }
+    },
+
+    async getContentRef(guide: GuideRepo): Promise<string> {
+      return guide.ref || 'main';
+    },
+
+    async readFile(guide: GuideRepo, filePath: string): Promise<string | null> {
+      const resolved = resolvePath(guide, filePath);
+      if (!resolved) return null;
+
+      try {
+        return await fs.readFile(resolved, 'utf-8');
+      } catch (error) {
+        return null;
+      }
+    },
+  };
+}
@@ -0,0 +1,139 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { Octokit } from '@octokit/core';
+
+export interface GitHubCacheOptions {
+  /** How long a response is reused without revalidating, in seconds */
+  ttlSeconds: number;
+  /** Directory for the persistent ETag cache; disabled when not set */
+  cacheDir?: string;
+}
+
+interface CachedResponse {
+  etag: string;
+  status: number;
+  url: string;
+  data: unknown;
+}
+
+interface MemoryEntry {
+  /** Infinity while the request is in flight; the TTL counts from when it settles */
+  expiresAt: number;
+  promise: Promise<any>;
+}
+
+/**
+ * Adds request-level caching to an Octokit client.
+ *
+ * GET requests are deduplicated in memory: concurrent and repeated calls for the
+ * same route, parameters and media type share one request while it is in flight,
+ * and its response until the TTL (counted from when it arrives) runs out.
+ * Responses carrying an ETag are also kept (in memory, and on disk when `cacheDir`
+ * is set) and revalidated with `If-None-Match`, so unchanged resources come back
+ * as 304s, which don't count against the rate limit.
+ */
+export function withGitHubCache(octokit: Octokit, options: GitHubCacheOptions): Octokit {
+  const memory = new Map<string, MemoryEntry>();
+  const validators = new Map<string, CachedResponse>();
+  const ttl = options.ttlSeconds * 1000;
+
+  const diskPath = (key: string): string | null =>
+    options.cacheDir ? path.join(options.cacheDir, `${key}.json`) : null;
+
+  const readValidator = async (key: string): Promise<CachedResponse | null> => {
+    const cached = validators.get(key);
+    if (cached) return cached;
+
+    const file = diskPath(key);
+    if (!file) return null;
+    try {
+      const entry = JSON.parse(await fs.readFile(file, 'utf-8')) as CachedResponse;
+      validators.set(key, entry);
+      return entry;
+    } catch {
+      return null;
+    }
+  };
+
+  const writeValidator = async (key: string, entry: CachedResponse): Promise<void> => {
+    validators.set(key, entry);
+
+    const file = diskPath(key);
+    if (!file) return;
+    try {
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, JSON.stringify(entry));
+    } catch (error) {
+      console.error(`Error writing GitHub cache entry ${file}:`, error);
+    }
+  };
+
+  const fetchWithValidation = async (request: any, requestOptions: any, key: string) => {
+    const cached = await readValidator(key);
+    const headers = cached
+      ? { ...requestOptions.headers, 'if-none-match': cached.etag }
+      : requestOptions.headers;
+
+    try {
+      const response = await request({ ...requestOptions, headers });
+      const etag = response.headers?.etag;
+      // Binary payloads (archives) aren't JSON-serializable; keep them in memory only
+      if (etag && isSerializable(response.data)) {
+        await writeValidator(key, { etag, status: response.status, url: response.url, data: response.data });
+      }
+      return response;
+    } catch (error: any) {
+      if (cached && error?.status === 304) {
+        return { status: cached.status, url: cached.url, headers: { etag: cached.etag }, data: cached.data };
+      }
+      throw error;
+    }
+  };
+
+  octokit.hook.wrap('request', (request, requestOptions) => {
+    if (requestOptions.method !== 'GET') {
+      return request(requestOptions);
+    }
+
+    const key = getCacheKey(requestOptions);
+    const hit = memory.get(key);
+    if (hit && hit.expiresAt > Date.now()) {
+      return hit.promise;
+    }
+
+    const promise = fetchWithValidation(request, requestOptions, key);
+    const entry: MemoryEntry = { expiresAt: Infinity, promise };
+    memory.set(key, entry);
+    const settle = () => {
+      entry.expiresAt = Date.now() + ttl;
+    };
+    // Don't pin transient failures; 404s are stable enough to reuse
+    promise.then(settle, (error) => {
+      if (error?.status === 404) {
+        settle();
+      } else if (memory.get(key) === entry) {
+        memory.delete(key);
+      }
+    });
+    return promise;
+  });
+
+  return octokit;
+}
+
+/**
+ * Builds a stable key from route, parameters and media type (auth is left out)
+ */
+function getCacheKey(requestOptions: Record<string, any>): string {
+  const { method, url, headers, request, mediaType, baseUrl, ...params } = requestOptions;
+  const sortedParams = Object.keys(params)
+    .sort()
+    .map((name) => [name, params[name]]);
+  const identity = JSON.stringify([method, baseUrl, url, sortedParams, headers?.accept, mediaType?.format]);
+  return createHash('sha1').update(identity).digest('hex');
+}
+
+function isSerializable(data: unknown): boolean {
+  return typeof data === 'string' || (typeof data === 'object' && data !== null && !(data instanceof ArrayBuffer));
+}
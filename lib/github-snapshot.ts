@@ -0,0 +1,147 @@
+import { gunzipSync } from 'zlib';
+import type { Octokit } from '@octokit/core';
+import type { RepoContent } from './content-source';
+
+const ASSET_EXTENSIONS = /\.(md|markdown|png|jpe?g|gif|svg|webp)$/i;
+
+/**
+ * In-memory copy of a repository at a single commit.
+ * Every file path is recorded so directories can be listed, but only markdown
+ * and image assets keep their contents; other files are read through the API.
+ */
+export interface RepoSnapshot {
+  sha: string;
+  paths: Set<string>;
+  files: Map<string, Buffer>;
+}
+
+/**
+ * Downloads a repository once as a tarball pinned to the commit `ref` points at.
+ * Costs two requests (ref resolution + archive) regardless of the number of chapters.
+ */
+export async function loadRepoSnapshot(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  ref: string
+): Promise<RepoSnapshot> {
+  const sha = await resolveCommitSha(octokit, owner, repo, ref);
+  const response = await octokit.request('GET /repos/{owner}/{repo}/tarball/{ref}', {
+    owner,
+    repo,
+    ref: sha,
+  });
+
+  const archive = Buffer.from(response.data as ArrayBuffer);
+  const snapshot: RepoSnapshot = { sha, paths: new Set(), files: new Map() };
+
+  for (const entry of readTarEntries(gunzipSync(archive))) {
+    // Archive entries are prefixed with a "<owner>-<repo>-<sha>/" directory
+    const path = entry.name.split('/').slice(1).join('/');
+    if (!path || entry.type !== 'file') continue;
+
+    snapshot.paths.add(path);
+    if (ASSET_EXTENSIONS.test(path)) {
+      snapshot.files.set(path, entry.content);
+    }
+  }
+
+  return snapshot;
+}
+
+/**
+ * Resolves a branch, tag or SHA to the full commit SHA
+ */
+export async function resolveCommitSha(octokit: Octokit, owner: string, repo: string, ref: string): Promise<string> {
+  const response = await octokit.request('GET /repos/{owner}/{repo}/commits/{ref}', {
+    owner,
+    repo,
+    ref,
+    mediaType: { format: 'sha' },
+  });
+  return String(response.data).trim();
+}
+
+/**
+ * Lists the direct children of `dirPath` from the snapshot's file paths
+ */
+export function listSnapshotDirectory(
+  snapshot: RepoSnapshot,
+  dirPath: string,
+  getDownloadUrl: (path: string) => string
+): RepoContent[] {
+  const prefix = dirPath && dirPath !== '.' ? `${dirPath.replace(/\/$/, '')}/` : '';
+  const entries = new Map<string, RepoContent>();
+
+  snapshot.paths.forEach((path) => {
+    if (!path.startsWith(prefix)) return;
+
+    const [name, ...rest] = path.slice(prefix.length).split('/');
+    if (entries.has(name)) return;
+
+    const isDir = rest.length > 0;
+    entries.set(name, {
+      name,
+      path: `${prefix}${name}`,
+      type: isDir ? 'dir' : 'file',
+      download_url: isDir ? null : getDownloadUrl(`${prefix}${name}`),
+    });
+  });
+
+  return Array.from(entries.values());
+}
+
+interface TarEntry {
+  name: string;
+  type: 'file' | 'dir' | 'other';
+  content: Buffer;
+}
+
+/**
+ * Minimal ustar reader, including the pax and GNU long-name extensions GitHub uses
+ */
+function* readTarEntries(tar: Buffer): Generator<TarEntry> {
+  let offset = 0;
+  let longName: string | null = null;
+
+  while (offset + 512 <= tar.length) {
+    const header = tar.subarray(offset, offset + 512);
+    if (header.every((byte) => byte === 0)) break;
+
+    const size = parseInt(readString(header, 124, 12).trim() || '0', 8);
+    const typeFlag = String.fromCharCode(header[156] || 48);
+    const prefix = readString(header, 345, 155);
+    const name = prefix ? `${prefix}/${readString(header, 0, 100)}` : readString(header, 0, 100);
+    const content = tar.subarray(offset + 512, offset + 512 + size);
+    offset += 512 + Math.ceil(size / 512) * 512;
+
+    if (typeFlag === 'x') {
+      longName = parsePaxPath(content) ?? longName;
+      continue;
+    }
+    if (typeFlag === 'L') {
+      longName = content.toString('utf-8').replace(/\0+$/, '');
+      continue;
+    }
+    if (typeFlag === 'g') continue;
+
+    yield {
+      name: longName ?? name,
+      type: typeFlag === '0' || typeFlag === '\0' ? 'file' : typeFlag === '5' ? 'dir' : 'other',
+      content,
+    };
+    longName = null;
+  }
+}
+
+function readString(buffer: Buffer, start: number, length: number): string {
+  const raw = buffer.subarray(start, start + length);
+  const end = raw.indexOf(0);
+  return raw.subarray(0, end === -1 ? raw.length : end).toString('utf-8');
+}
+
+function parsePaxPath(content: Buffer): string | null {
+  // Records look like "<length> path=<value>\n"
+  const match = /(?:^|\n)\d+ path=([^\n]*)\n/.exec(content.toString('utf-8'));
+  return match ? match[1] : null;
+}
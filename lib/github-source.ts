@@ -0,0 +1,174 @@
+import { Octokit } from '@octokit/core';
+import type { ContentConfig } from '@/config/content';
+import type { ContentSource, Repository, RepoContent } from './content-source';
+import type { GuideRepo } from './repos';
+import { withGitHubCache } from './github-cache';
+import { loadRepoSnapshot, listSnapshotDirectory, resolveCommitSha, RepoSnapshot } from './github-snapshot';
+
+const getOctokit = () => {
+  const token = process.env.GITHUB_TOKEN;
+  if (token) {
+    return new Octokit({ auth: token });
+  }
+  return new Octokit();
+};
+
+/**
+ * Content source backed by the GitHub REST API.
+ * Requests go through the shared cache, so repeated lookups (repo info for every
+ * file read, chapter bodies for descriptions) only hit the network once.
+ * With snapshots enabled, reads at the guide's ref are served from a tarball
+ * of the whole repository pinned to the commit that ref points at.
+ */
+export function createGitHubSource(options: ContentConfig['github']): ContentSource {
+  const octokit = withGitHubCache(getOctokit(), {
+    ttlSeconds: options.cacheTtlSeconds,
+    cacheDir: options.cacheDir,
+  });
+
+  const getRepoInfo = async (guide: GuideRepo): Promise<Repository> => {
+    try {
+      const response = await octokit.request('GET /repos/{owner}/{repo}', {
+        owner: guide.owner,
+        repo: guide.repo,
+      });
+      const defaultBranch = response.data.default_branch || 'main';
+      return {
+        slug: guide.slug,
+        owner: guide.owner,
+        name: response.data.name,
+        description: response.data.description,
+        full_name: response.data.full_name,
+        default_branch: defaultBranch,
+        ref: guide.ref || defaultBranch,
+        docsPath: guide.docsPath,
+        topics: response.data.topics || [],
+        pushed_at: response.data.pushed_at,
+      };
+    } catch (error) {
+      throw new Error(`Repository ${guide.owner}/${guide.repo} not found`);
+    }
+  };
+
+  const snapshots = new Map<string, { expiresAt: number; promise: Promise<RepoSnapshot | null> }>();
+
+  const getSnapshot = (guide: GuideRepo): Promise<RepoSnapshot | null> => {
+    if (!options.snapshot) return Promise.resolve(null);
+
+    const key = `${guide.owner}/${guide.repo}@${guide.ref || ''}`;
+    const cached = snapshots.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.promise;
+    }
+
+    const promise = (async () => {
+      try {
+        const repo = await getRepoInfo(guide);
+        // Keep the previous snapshot if the ref hasn't moved since it was taken
+        const previous = cached ? await cached.promise : null;
+        if (previous) {
+          const sha = await resolveCommitSha(octokit, guide.owner, guide.repo, repo.ref);
+          if (sha === previous.sha) return previous;
+        }
+        return await loadRepoSnapshot(octokit, guide.owner, guide.repo, repo.ref);
+      } catch (error) {
+        console.error(`Error loading snapshot for ${guide.owner}/${guide.repo}, falling back to per-file requests:`, error);
+        return null;
+      }
+    })();
+
+    snapshots.set(key, { expiresAt: Date.now() + options.cacheTtlSeconds * 1000, promise });
+    return promise;
+  };
+
+  return {
+    getRepoInfo,
+
+    async listDirectory(guide: GuideRepo, path: string): Promise<RepoContent[]> {
+      const snapshot = await getSnapshot(guide);
+      if (snapshot) {
+        return listSnapshotDirectory(snapshot, path, (filePath) =>
+          getRawFileUrl(guide.owner, guide.repo, snapshot.sha, filePath)
+        );
+      }
+
+      try {
+        const repo = await getRepoInfo(guide);
+        const response = await octokit.request('GET /repos/{owner}/{repo}/contents/{path}', {
+          owner: guide.owner,
+          repo: guide.repo,
+          path: path || '.',
+          ref: repo.ref,
+        });
+
+        if (Array.isArray(response.data)) {
+          return response.data.map((item: any) => ({
+            name: item.name,
+            path: item.path,
+            type: item.type,
+            download_url: item.download_url,
+          }));
+        }
+        return [];
+      } catch (error) {
+        console.error(`Error fetching contents for ${guide.owner}/${guide.repo}/${path}:`, error);
+        return [];
+      }
+    },
+
+    async getContentRef(guide: GuideRepo): Promise<string> {
+      // Files at the guide's ref come from the snapshot, pinned to one commit
+      const snapshot = await getSnapshot(guide);
+      return snapshot ? snapshot.sha : (await getRepoInfo(guide)).ref;
+    },
+
+    async readFile(guide: GuideRepo, path: string, ref?: string): Promise<string | null> {
+      try {
+        const repo = await getRepoInfo(guide);
+        let branch = ref || repo.ref;
+
+        if (branch === repo.ref) {
+          const snapshot = await getSnapshot(guide);
+          if (snapshot) {
+            const file = snapshot.files.get(path);
+            if (file) return file.toString('utf-8');
+            if (!snapshot.paths.has(path)) return null;
+            // Not kept in the snapshot (e.g. source files): fetch at the same commit
+            branch = snapshot.sha;
+          }
+        }
+
+        const response = await octokit.request('GET /repos/{owner}/{repo}/contents/{path}', {
+          owner: guide.owner,
+          repo: guide.repo,
+          path: path,
+          ref: branch,
+          headers: {
+            accept: 'application/vnd.github.raw',
+          },
+        });
+
+        if (typeof response.data === 'string') {
+          return response.data;
+        }
+
+        // Fallback to base64 decoding if raw not available
+        if ('content' in response.data && response.data.type === 'file') {
+          return Buffer.from(response.data.content, 'base64').toString('utf-8');
+        }
+        return null;
+      } catch (error) {
+        console.error(`Error fetching file content for ${guide.owner}/${guide.repo}/${path}:`, error);
+        return null;
+      }
+    },
+  };
+}
+
+export function getRawFileUrl(owner: string, repoName: string, ref: string, path: string): string {
+  return `https://raw.githubusercontent.com/${owner}/${repoName}/${ref}/${path}`;
+}
+
+export function getBlobUrl(owner: string, repoName: string, ref: string, path: string): string {
+  return `https://github.com/${owner}/${repoName}/blob/${ref}/${path}`;
+}
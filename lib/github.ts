@@ -1,250 +1,275 @@
-import { Octokit } from '@octokit/core';
-import { parseReadme } from './readme-parser';
-
-const ORG_NAME = 'implement-from-scratch';
-
-const getOctokit = () => {
-  const token = process.env.GITHUB_TOKEN;
-  if (token) {
-    return new Octokit({ auth: token });
-  }
-  return new Octokit();
-};
-
-const octokit = getOctokit();
-
-export interface Repository {
-  name: string;
-  description: string | null;
-  full_name: string;
-  default_branch: string;
-  readmeTitle?: string;
-  readmeDescription?: string | null;
-}
-
-export interface RepoContent {
-  name: string;
-  path: string;
-  type: 'file' | 'dir';
-  download_url: string | null;
-}
+import { getContentSource } from './content-source';
+import { parseReadme, ReadmeData } from './readme-parser';
+import { getConfiguredGuides, resolveGuide, GuideRepo } from './repos';
+import { getBlobUrl, getRawFileUrl } from './github-source';
+import { resolveRepoPath, LinkContext } from './link-resolver';
+import { parseChapterMeta, ChapterMeta, ChapterDifficulty } from './chapter-meta';
+import { parseGuideManifest, GuideManifest, GuideManifestPart, GuideManifestResult, GUIDE_MANIFEST_FILES } from './guide-manifest';
+import { mergeTaxonomy, taxonomyFromTopics } from './guide-taxonomy';
+import type { Repository, RepoContent } from './content-source';
+
+export type { Repository, RepoContent } from './content-source';
+export { getBlobUrl, getRawFileUrl } from './github-source';
 
 export interface Chapter {
   name: string;
   path: string;
+  /** Path relative to the docs folder without extension, e.g. "part-2-parser/03_tokens" */
   slug: string;
+  /** Folder relative to the docs folder, or '' for top-level chapters */
+  directory: string;
+  /** Display title: frontmatter `title`, or derived from the file name */
+  title: string;
+  meta: ChapterMeta;
 }
 
-export async function getOrganizationRepositories(): Promise<Repository[]> {
-  try {
-    const response = await octokit.request('GET /orgs/{org}/repos', {
-      org: ORG_NAME,
-      type: 'public',
-      per_page: 100,
-      sort: 'updated',
-    });
-    return response.data.map((repo: any) => ({
-      name: repo.name,
-      description: repo.description,
-      full_name: repo.full_name,
-      default_branch: repo.default_branch || 'main',
-    }));
-  } catch (error) {
-    console.error('Error fetching organization repositories:', error);
-    return [];
+/*
+ * Accessors below take the guide's URL slug (see lib/repos.ts), which is the
+ * repository name unless config/repos.ts says otherwise.
+ */
+
+function requireGuide(repoName: string): GuideRepo {
+  const guide = resolveGuide(repoName);
+  if (!guide) {
+    throw new Error(`Guide ${repoName} is not configured in config/repos.ts`);
   }
+  return guide;
 }
 
 export async function hasDocsFolder(repoName: string): Promise<boolean> {
-  try {
-    const response = await octokit.request('GET /repos/{owner}/{repo}/contents/{path}', {
-      owner: ORG_NAME,
-      repo: repoName,
-      path: 'docs',
-    });
-    return Array.isArray(response.data);
-  } catch (error) {
-    return false;
-  }
+  const guide = requireGuide(repoName);
+  const contents = await getContentSource().listDirectory(guide, guide.docsPath);
+  return contents.length > 0;
 }
 
 export async function getRepositoriesWithDocs(): Promise<Repository[]> {
-  const { repos: enabledRepos } = await import('@/config/repos');
-  
-  const allRepos = await getOrganizationRepositories();
   const reposWithDocs: Repository[] = [];
 
-  for (const repo of allRepos) {
-    if (enabledRepos.includes(repo.name) && await hasDocsFolder(repo.name)) {
-      // Fetch and parse README
+  for (const guide of getConfiguredGuides()) {
+    let repo: Repository;
+    try {
+      repo = await getRepoInfo(guide.slug);
+    } catch (error) {
+      console.error(`Error fetching repository ${guide.owner}/${guide.repo}:`, error);
+      continue;
+    }
+
+    // A valid manifest declares the repository a guide; otherwise it needs a docs folder
+    const manifest = await getGuideManifest(guide.slug);
+    if (manifest || (await hasDocsFolder(guide.slug))) {
       try {
-        const readmeContent = await getFileContent(repo.name, 'README.md', repo.default_branch);
-        if (readmeContent) {
-          const readmeData = parseReadme(readmeContent, repo.name);
-          reposWithDocs.push({
-            ...repo,
-            readmeTitle: readmeData.title,
-            readmeDescription: readmeData.description,
-          });
-        } else {
-          // Fallback if README not found
-          reposWithDocs.push(repo);
-        }
+        repo = { ...repo, chapterCount: (await getChapters(guide.slug)).length };
       } catch (error) {
-        console.error(`Error parsing README for ${repo.name}:`, error);
-        reposWithDocs.push(repo);
+        console.error(`Error listing chapters for ${repo.full_name}:`, error);
       }
+
+      const info = await getGuideInfo(guide.slug);
+      reposWithDocs.push({
+        ...repo,
+        readmeTitle: info.title,
+        readmeDescription: info.description,
+        // Manifest values win; GitHub topics fill in the rest
+        taxonomy: mergeTaxonomy(manifest?.taxonomy || {}, taxonomyFromTopics(repo.topics || [])),
+      });
     }
   }
 
   return reposWithDocs;
 }
 
-export async function getRepoContents(repoName: string, path: string = ''): Promise<RepoContent[]> {
-  try {
-    const response = await octokit.request('GET /repos/{owner}/{repo}/contents/{path}', {
-      owner: ORG_NAME,
-      repo: repoName,
-      path: path || '.',
-    });
+/**
+ * Reads and validates the guide's manifest (guide.json, guide.yaml or guide.yml
+ * at the repository root), or returns null if it has none
+ */
+export async function readGuideManifest(repoName: string): Promise<GuideManifestResult | null> {
+  const root = await getRepoContents(repoName);
+  const file = GUIDE_MANIFEST_FILES.find((name) => root.some((item) => item.type === 'file' && item.name === name));
+  if (!file) return null;
+
+  const content = await getFileContent(repoName, file);
+  return content === null ? null : parseGuideManifest(content, file);
+}
+
+// Invalid manifests are read on every lookup; only log each problem once
+const reportedManifestErrors = new Set<string>();
 
-    if (Array.isArray(response.data)) {
-      return response.data.map((item: any) => ({
-        name: item.name,
-        path: item.path,
-        type: item.type,
-        download_url: item.download_url,
-      }));
+/**
+ * The guide's manifest if it has a valid one. Invalid manifests are logged and
+ * ignored, so the guide falls back to its README and folder structure.
+ */
+export async function getGuideManifest(repoName: string): Promise<GuideManifest | null> {
+  const result = await readGuideManifest(repoName);
+  if (!result) return null;
+
+  if (result.errors.length > 0) {
+    const report = `Ignoring invalid ${result.file} in ${repoName}:\n  ${result.errors.join('\n  ')}`;
+    if (!reportedManifestErrors.has(report)) {
+      reportedManifestErrors.add(report);
+      console.error(report);
     }
-    return [];
-  } catch (error) {
-    console.error(`Error fetching contents for ${repoName}/${path}:`, error);
-    return [];
   }
+  return result.manifest;
 }
 
-export async function getFileContent(repoName: string, path: string, branch?: string): Promise<string | null> {
-  try {
-    const repo = await getRepoInfo(repoName);
-    const response = await octokit.request('GET /repos/{owner}/{repo}/contents/{path}', {
-      owner: ORG_NAME,
-      repo: repoName,
-      path: path,
-      ref: branch || repo.default_branch,
-    });
+export interface GuideInfo {
+  title: string;
+  description: string | null;
+}
 
-    if ('content' in response.data && response.data.type === 'file') {
-      const content = Buffer.from(response.data.content, 'base64').toString('utf-8');
-      return content;
+/**
+ * The guide's title and description: from its manifest, else the README's
+ * first heading and paragraph, else the repository's name and description
+ */
+export async function getGuideInfo(repoName: string): Promise<GuideInfo> {
+  const [repo, manifest] = await Promise.all([getRepoInfo(repoName), getGuideManifest(repoName)]);
+
+  let readme: ReadmeData | null = null;
+  if (!manifest?.title || !manifest.description) {
+    try {
+      const readmeContent = await getFileContent(repoName, 'README.md', repo.ref);
+      readme = readmeContent ? parseReadme(readmeContent, repo.name) : null;
+    } catch (error) {
+      console.error(`Error fetching README for ${repo.full_name}:`, error);
     }
-    return null;
-  } catch (error) {
-    console.error(`Error fetching file content for ${repoName}/${path}:`, error);
-    return null;
   }
+
+  return {
+    title: manifest?.title || readme?.title || repo.name,
+    description: manifest?.description || readme?.description || repo.description,
+  };
+}
+
+export async function getRepoContents(repoName: string, path: string = ''): Promise<RepoContent[]> {
+  return getContentSource().listDirectory(requireGuide(repoName), path);
+}
+
+export async function getFileContent(repoName: string, path: string, branch?: string): Promise<string | null> {
+  return getContentSource().readFile(requireGuide(repoName), path, branch);
 }
 
 export async function getRepoInfo(repoName: string): Promise<Repository> {
-  try {
-    const response = await octokit.request('GET /repos/{owner}/{repo}', {
-      owner: ORG_NAME,
-      repo: repoName,
-    });
-    return {
-      name: response.data.name,
-      description: response.data.description,
-      full_name: response.data.full_name,
-      default_branch: response.data.default_branch || 'main',
-    };
-  } catch (error) {
-    throw new Error(`Repository ${repoName} not found`);
-  }
+  return getContentSource().getRepoInfo(requireGuide(repoName));
+}
+
+/**
+ * Commit the guide's files are read at: the snapshot's when there is one,
+ * otherwise its ref
+ */
+export async function getContentRef(repoName: string): Promise<string> {
+  return getContentSource().getContentRef(requireGuide(repoName));
+}
+
+/**
+ * Base URL for raw files of a repository at its configured ref (no trailing slash)
+ */
+export function getRawBaseUrl(repo: Repository): string {
+  return getRawFileUrl(repo.owner, repo.name, repo.ref, '').replace(/\/$/, '');
+}
+
+/**
+ * Builds what MarkdownRenderer needs to resolve relative links in `filePath`:
+ * chapters become site routes, other repository files point to GitHub.
+ */
+export async function getLinkContext(repoName: string, filePath: string): Promise<LinkContext> {
+  const [repo, chapters] = await Promise.all([getRepoInfo(repoName), getChapters(repoName)]);
+  return {
+    repoSlug: repo.slug,
+    filePath,
+    docsPath: repo.docsPath,
+    chapterSlugs: Object.fromEntries(chapters.map((chapter) => [chapter.path, chapter.slug])),
+    rawBaseUrl: getRawBaseUrl(repo),
+    blobBaseUrl: getBlobUrl(repo.owner, repo.name, repo.ref, '').replace(/\/$/, ''),
+  };
 }
 
 export async function getChapters(repoName: string): Promise<Chapter[]> {
-  const contents = await getRepoContents(repoName, 'docs');
+  const docsPath = requireGuide(repoName).docsPath;
   const chapters: Chapter[] = [];
 
-  for (const item of contents) {
-    if (item.type === 'file' && item.name.endsWith('.md') && item.name !== 'README.md') {
-      const slug = item.name.replace('.md', '');
-      chapters.push({
-        name: item.name,
-        path: item.path,
-        slug: slug,
-      });
-    }
-  }
+  // Walk docs/ recursively; folders like docs/part-2-parser/ group related chapters
+  const collect = async (dirPath: string): Promise<void> => {
+    const contents = await getRepoContents(repoName, dirPath);
+    await Promise.all(
+      contents.map(async (item) => {
+        if (item.type === 'dir') {
+          await collect(item.path);
+        } else if (item.name.endsWith('.md') && item.name !== 'README.md') {
+          const content = await getFileContent(repoName, item.path);
+          const meta = parseChapterMeta(content || '', item.name);
+          chapters.push({
+            name: item.name,
+            path: item.path,
+            slug: item.path.slice(docsPath.length + 1).replace(/\.md$/, ''),
+            directory: dirPath === docsPath ? '' : dirPath.slice(docsPath.length + 1),
+            title: meta.title,
+            meta,
+          });
+        }
+      })
+    );
+  };
 
-  return chapters.sort((a, b) => a.name.localeCompare(b.name));
-}
+  await collect(docsPath);
+  chapters.sort(compareChapters);
 
-export function getRawFileUrl(repoName: string, path: string, branch: string): string {
-  return `https://raw.githubusercontent.com/${ORG_NAME}/${repoName}/${branch}/${path}`;
+  // A manifest's chapter list wins; chapters it leaves out follow in the usual order
+  const order = (await getGuideManifest(repoName))?.chapterOrder;
+  if (!order) return chapters;
+  const positionOf = (chapter: Chapter) => {
+    const index = order.indexOf(chapter.slug);
+    return index === -1 ? order.length : index;
+  };
+  return chapters.sort((a, b) => positionOf(a) - positionOf(b));
 }
 
 /**
- * Fetches the main README.md from the repository root (raw content)
+ * Orders chapters folder by folder. Within a folder, chapters with a frontmatter
+ * `order` come first (by order), then remaining chapters and subfolders by name.
  */
-export async function getMainReadme(repoName: string): Promise<string | null> {
-  try {
-    const repo = await getRepoInfo(repoName);
-    const response = await octokit.request('GET /repos/{owner}/{repo}/contents/{path}', {
-      owner: ORG_NAME,
-      repo: repoName,
-      path: 'README.md',
-      ref: repo.default_branch,
-      headers: {
-        accept: 'application/vnd.github.raw',
-      },
+function compareChapters(a: Chapter, b: Chapter): number {
+  const keyOf = (chapter: Chapter): Array<[number, string]> => {
+    const segments = chapter.slug.split('/');
+    return segments.map((segment, index) => {
+      const isFile = index === segments.length - 1;
+      return [isFile && chapter.meta.order !== undefined ? chapter.meta.order : Infinity, segment];
     });
+  };
 
-    if (typeof response.data === 'string') {
-      return response.data;
-    }
-
-    // Fallback to base64 decoding if raw not available
-    if ('content' in response.data && response.data.type === 'file') {
-      const content = Buffer.from(response.data.content, 'base64').toString('utf-8');
-      return content;
-    }
-    return null;
-  } catch (error) {
-    console.error(`Error fetching main README for ${repoName}:`, error);
-    return null;
+  const keyA = keyOf(a);
+  const keyB = keyOf(b);
+  for (let i = 0; i < Math.min(keyA.length, keyB.length); i++) {
+    const [orderA, nameA] = keyA[i];
+    const [orderB, nameB] = keyB[i];
+    if (orderA !== orderB) return orderA < orderB ? -1 : 1;
+    if (nameA !== nameB) return nameA.localeCompare(nameB);
   }
+  return keyA.length - keyB.length;
 }
 
 /**
- * Fetches raw file content from repository
+ * Turns a chapter folder name like "part-2-parser" into "Part 2 Parser"
  */
-export async function getRawFileContent(repoName: string, path: string): Promise<string | null> {
-  try {
-    const repo = await getRepoInfo(repoName);
-    const response = await octokit.request('GET /repos/{owner}/{repo}/contents/{path}', {
-      owner: ORG_NAME,
-      repo: repoName,
-      path: path,
-      ref: repo.default_branch,
-      headers: {
-        accept: 'application/vnd.github.raw',
-      },
-    });
+export function formatDirectoryName(directory: string): string {
+  const name = directory.split('/').pop() || directory;
+  return name
+    .replace(/^\d+[-_]/, '')
+    .replace(/[-_]+/g, ' ')
+    .replace(/\b\w/g, (l) => l.toUpperCase())
+    .trim();
+}
 
-    if (typeof response.data === 'string') {
-      return response.data;
-    }
+/**
+ * Fetches the main README.md from the repository root (raw content)
+ */
+export async function getMainReadme(repoName: string): Promise<string | null> {
+  return getContentSource().readFile(requireGuide(repoName), 'README.md');
+}
 
-    // Fallback to base64 decoding
-    if ('content' in response.data && response.data.type === 'file') {
-      const content = Buffer.from(response.data.content, 'base64').toString('utf-8');
-      return content;
-    }
-    return null;
-  } catch (error) {
-    console.error(`Error fetching raw file ${path} for ${repoName}:`, error);
-    return null;
-  }
+/**
+ * Fetches raw file content from repository
+ */
+export async function getRawFileContent(repoName: string, path: string): Promise<string | null> {
+  return getContentSource().readFile(requireGuide(repoName), path);
 }
 
 export interface RoadmapGroup {
@@ -252,6 +277,7 @@ export interface RoadmapGroup {
   chapters: Array<{
     name: string;
     slug: string;
+    title: string;
     description: string;
   }>;
 }
@@ -262,15 +288,24 @@ export interface RoadmapTreeNode {
   type: 'root' | 'part' | 'chapter';
   slug?: string;
   description?: string;
+  difficulty?: ChapterDifficulty;
+  estimatedMinutes?: number;
   children?: RoadmapTreeNode[];
 }
 
 /**
- * Parses docs/README.md to extract roadmap tree structure
+ * Builds the roadmap tree from the manifest's parts if it has any, otherwise
+ * by parsing the "Part N" sections of docs/README.md
  */
 export async function parseDocsReadmeForRoadmapTree(repoName: string, repoTitle: string): Promise<RoadmapTreeNode> {
   try {
-    const docsReadmeContent = await getFileContent(repoName, 'docs/README.md');
+    const manifest = await getGuideManifest(repoName);
+    if (manifest?.parts) {
+      return await getManifestRoadmapTree(repoName, repoTitle, manifest.parts);
+    }
+
+    const docsReadmePath = `${requireGuide(repoName).docsPath}/README.md`;
+    const docsReadmeContent = await getFileContent(repoName, docsReadmePath);
     if (!docsReadmeContent) {
       // Fallback to flat tree
       return await getFlatRoadmapTree(repoName, repoTitle);
@@ -331,20 +366,18 @@ export async function parseDocsReadmeForRoadmapTree(repoName: string, repoTitle:
               .join('');
             const href = linkNode.url;
 
-            // Extract chapter slug from href
-            const chapterSlug = href
-              .replace(/^\.\//, '')
-              .replace(/\.md$/, '')
-              .replace(/^docs\//, '');
-
-            const chapter = chapters.find((c) => c.slug === chapterSlug);
+            // Links are relative to docs/README.md, e.g. "./part-2/04_tokens.md#intro"
+            const chapterPath = resolveRepoPath(docsReadmePath, href);
+            const chapter = chapters.find((c) => c.path === chapterPath);
             if (chapter && currentPart && currentPart.children) {
               currentPart.children.push({
                 id: `chapter-${chapter.slug}`,
-                label: chapter.name.replace(/^\d+[-_]?/, '').replace('.md', '').replace(/_/g, ' '),
+                label: chapter.title,
                 type: 'chapter',
                 slug: chapter.slug,
                 description: linkText,
+                difficulty: chapter.meta.difficulty,
+                estimatedMinutes: chapter.meta.estimatedMinutes,
               });
             }
           }
@@ -380,7 +413,7 @@ export async function parseDocsReadmeForRoadmapTree(repoName: string, repoTitle:
       if (node.type === 'chapter' && node.slug) {
         const chapterInfo = chapters.find((c) => c.slug === node.slug);
         if (chapterInfo) {
-          const description = await getChapterDescription(repoName, chapterInfo.path);
+          const description = await getChapterDescription(repoName, chapterInfo);
           if (description) {
             node.description = description;
           }
@@ -401,29 +434,95 @@ export async function parseDocsReadmeForRoadmapTree(repoName: string, repoTitle:
 }
 
 /**
- * Fallback: Create a flat roadmap tree from chapter list
+ * Roadmap tree with one part per manifest part; chapters it names that don't exist are skipped
+ */
+async function getManifestRoadmapTree(
+  repoName: string,
+  repoTitle: string,
+  manifestParts: GuideManifestPart[]
+): Promise<RoadmapTreeNode> {
+  const chapters = await getChapters(repoName);
+  const parts = await Promise.all(
+    manifestParts.map(async (part, index): Promise<RoadmapTreeNode> => {
+      const partChapters = part.chapters
+        .map((slug) => chapters.find((chapter) => chapter.slug === slug))
+        .filter((chapter): chapter is Chapter => !!chapter);
+      return {
+        id: `part-${index + 1}`,
+        label: part.title,
+        type: 'part',
+        description: part.description,
+        children: await Promise.all(
+          partChapters.map(async (chapter) => ({
+            id: `chapter-${chapter.slug}`,
+            label: chapter.title,
+            type: 'chapter' as const,
+            slug: chapter.slug,
+            description: (await getChapterDescription(repoName, chapter)) || chapter.title,
+            difficulty: chapter.meta.difficulty,
+            estimatedMinutes: chapter.meta.estimatedMinutes,
+          }))
+        ),
+      };
+    })
+  );
+
+  return { id: 'root', label: repoTitle, type: 'root', children: parts };
+}
+
+/**
+ * Fallback: Create a roadmap tree from the chapter list, with one part per chapter folder
  */
 async function getFlatRoadmapTree(repoName: string, repoTitle: string): Promise<RoadmapTreeNode> {
   const chapters = await getChapters(repoName);
   const chaptersWithDescriptions = await Promise.all(
     chapters.map(async (chapter) => {
-      const description = await getChapterDescription(repoName, chapter.path);
+      const description = await getChapterDescription(repoName, chapter);
       return {
-        id: `chapter-${chapter.slug}`,
-        label: chapter.name.replace(/^\d+[-_]?/, '').replace('.md', '').replace(/_/g, ' '),
-        type: 'chapter' as const,
-        slug: chapter.slug,
-        description: description || chapter.name.replace(/^\d+[-_]?/, '').replace('.md', ''),
+        directory: chapter.directory,
+        node: {
+          id: `chapter-${chapter.slug}`,
+          label: chapter.title,
+          type: 'chapter' as const,
+          slug: chapter.slug,
+          description: description || chapter.title,
+          difficulty: chapter.meta.difficulty,
+          estimatedMinutes: chapter.meta.estimatedMinutes,
+        },
       };
     })
   );
 
-  return {
+  const rootNode: RoadmapTreeNode = {
     id: 'root',
     label: repoTitle,
     type: 'root',
-    children: chaptersWithDescriptions,
+    children: [],
   };
+
+  // Nested folders become nested parts, created in chapter order
+  const parts = new Map<string, RoadmapTreeNode>([['', rootNode]]);
+  const getPart = (directory: string): RoadmapTreeNode => {
+    const existing = parts.get(directory);
+    if (existing) return existing;
+
+    const parent = getPart(directory.includes('/') ? directory.slice(0, directory.lastIndexOf('/')) : '');
+    const part: RoadmapTreeNode = {
+      id: `part-${directory}`,
+      label: formatDirectoryName(directory),
+      type: 'part',
+      children: [],
+    };
+    parent.children!.push(part);
+    parts.set(directory, part);
+    return part;
+  };
+
+  chaptersWithDescriptions.forEach(({ directory, node }) => {
+    getPart(directory).children!.push(node);
+  });
+
+  return rootNode;
 }
 
 /**
@@ -431,7 +530,8 @@ async function getFlatRoadmapTree(repoName: string, repoTitle: string): Promise<
  */
 export async function parseDocsReadmeForRoadmap(repoName: string): Promise<RoadmapGroup[]> {
   try {
-    const docsReadmeContent = await getFileContent(repoName, 'docs/README.md');
+    const docsReadmePath = `${requireGuide(repoName).docsPath}/README.md`;
+    const docsReadmeContent = await getFileContent(repoName, docsReadmePath);
     if (!docsReadmeContent) {
       // Fallback to flat chapter list
       return await getFlatRoadmap(repoName);
@@ -477,18 +577,15 @@ export async function parseDocsReadmeForRoadmap(repoName: string): Promise<Roadm
               .join('');
             const href = linkNode.url;
 
-            // Extract chapter slug from href (e.g., "./01_introduction.md" -> "01_introduction")
-            const chapterSlug = href
-              .replace(/^\.\//, '')
-              .replace(/\.md$/, '')
-              .replace(/^docs\//, '');
-
-            const chapter = chapters.find((c) => c.slug === chapterSlug);
+            // Links are relative to docs/README.md (e.g., "./01_introduction.md")
+            const chapterPath = resolveRepoPath(docsReadmePath, href);
+            const chapter = chapters.find((c) => c.path === chapterPath);
             if (chapter) {
-              chapterSlugs.push(chapterSlug);
+              chapterSlugs.push(chapter.slug);
               currentGroup!.chapters.push({
                 name: chapter.name,
                 slug: chapter.slug,
+                title: chapter.title,
                 description: linkText, // Will be updated with actual description
               });
             }
@@ -518,7 +615,7 @@ export async function parseDocsReadmeForRoadmap(repoName: string): Promise<Roadm
         group.chapters.map(async (chapter) => {
           const chapterInfo = chapters.find((c) => c.slug === chapter.slug);
           if (chapterInfo) {
-            const description = await getChapterDescription(repoName, chapterInfo.path);
+            const description = await getChapterDescription(repoName, chapterInfo);
             if (description) {
               chapter.description = description;
             }
@@ -557,11 +654,12 @@ async function getFlatRoadmap(repoName: string): Promise<RoadmapGroup[]> {
   const chapters = await getChapters(repoName);
   const chaptersWithDescriptions = await Promise.all(
     chapters.map(async (chapter) => {
-      const description = await getChapterDescription(repoName, chapter.path);
+      const description = await getChapterDescription(repoName, chapter);
       return {
         name: chapter.name,
         slug: chapter.slug,
-        description: description || chapter.name.replace(/^\d+[-_]?/, '').replace('.md', ''),
+        title: chapter.title,
+        description: description || chapter.title,
       };
     })
   );
@@ -575,11 +673,16 @@ async function getFlatRoadmap(repoName: string): Promise<RoadmapGroup[]> {
 }
 
 /**
- * Extracts a short description from a chapter file (first paragraph or heading)
+ * Returns the chapter's frontmatter summary, or extracts a short description
+ * from the chapter file (first paragraph or heading)
  */
-async function getChapterDescription(repoName: string, chapterPath: string): Promise<string | null> {
+async function getChapterDescription(repoName: string, chapter: Chapter): Promise<string | null> {
+  if (chapter.meta.summary) {
+    return chapter.meta.summary;
+  }
+
   try {
-    const content = await getFileContent(repoName, chapterPath);
+    const content = await getFileContent(repoName, chapter.path);
     if (!content) return null;
 
     const lines = content.split('\n').filter((line) => line.trim());
@@ -622,7 +725,7 @@ async function getChapterDescription(repoName: string, chapterPath: string): Pro
 
     return null;
   } catch (error) {
-    console.error(`Error getting chapter description for ${chapterPath}:`, error);
+    console.error(`Error getting chapter description for ${chapter.path}:`, error);
     return null;
   }
 }
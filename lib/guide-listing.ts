@@ -0,0 +1,146 @@
+import type { ChapterDifficulty } from './chapter-meta';
+import type { Repository } from './content-source';
+import { formatFacetValue } from './guide-taxonomy';
+
+/**
+ * How the homepage orders and groups guides. Both are kept in the query string
+ * (`?sort=chapters&group=language`) next to the facet filters.
+ */
+export type GuideSortMode = 'started' | 'updated' | 'title' | 'chapters' | 'difficulty' | 'progress';
+
+export type GuideGroupMode = 'none' | 'language' | 'topic';
+
+/** Sort modes in the order they are offered; the first one is the default */
+export const GUIDE_SORT_MODES: Array<{ key: GuideSortMode; label: string }> = [
+  { key: 'started', label: 'Started first' },
+  { key: 'updated', label: 'Recently updated' },
+  { key: 'title', label: 'Alphabetical' },
+  { key: 'chapters', label: 'Fewest chapters' },
+  { key: 'difficulty', label: 'Easiest first' },
+  { key: 'progress', label: 'Most progress' },
+];
+
+export const GUIDE_GROUP_MODES: Array<{ key: GuideGroupMode; label: string }> = [
+  { key: 'none', label: 'No grouping' },
+  { key: 'language', label: 'Language' },
+  { key: 'topic', label: 'Topic' },
+];
+
+export interface GuideListingOptions {
+  sort: GuideSortMode;
+  group: GuideGroupMode;
+}
+
+/** What sorting needs to know about the reader's progress in one guide */
+export interface GuideReaderState {
+  completedChapters: number;
+  /** Last time the guide was read, or 0 if it never was */
+  lastReadAt: number;
+}
+
+export interface GuideGroup {
+  /** Facet value the group is for, or '' for the single group when not grouping */
+  key: string;
+  label: string;
+  repos: Repository[];
+}
+
+const DIFFICULTY_RANK: Record<ChapterDifficulty, number> = { beginner: 0, intermediate: 1, advanced: 2 };
+
+/**
+ * Reads the sort and group modes from the query string, ignoring unknown values
+ */
+export function parseListingOptions(params: URLSearchParams): GuideListingOptions {
+  const sort = GUIDE_SORT_MODES.find(({ key }) => key === params.get('sort'));
+  const group = GUIDE_GROUP_MODES.find(({ key }) => key === params.get('group'));
+  return { sort: sort?.key || GUIDE_SORT_MODES[0].key, group: group?.key || GUIDE_GROUP_MODES[0].key };
+}
+
+/**
+ * Writes the sort and group modes into `params`; defaults are left out of the URL
+ */
+export function writeListingOptions(params: URLSearchParams, options: GuideListingOptions): URLSearchParams {
+  const next = new URLSearchParams(params);
+  if (options.sort === GUIDE_SORT_MODES[0].key) next.delete('sort');
+  else next.set('sort', options.sort);
+  if (options.group === GUIDE_GROUP_MODES[0].key) next.delete('group');
+  else next.set('group', options.group);
+  return next;
+}
+
+/**
+ * Sorts guides by the given mode. Guides the mode knows nothing about (no
+ * difficulty, never pushed) go last, and ties are broken by title. Guides
+ * nobody has started yet, as on a first visit, are listed recently updated first.
+ */
+export function sortGuides(
+  repos: Repository[],
+  mode: GuideSortMode,
+  readerState: Record<string, GuideReaderState>
+): Repository[] {
+  const stateOf = (repo: Repository) => readerState[repo.slug] || { completedChapters: 0, lastReadAt: 0 };
+  const isFinished = (repo: Repository) => !!repo.chapterCount && stateOf(repo).completedChapters >= repo.chapterCount;
+
+  const keyOf = (repo: Repository, sortMode: GuideSortMode): number => {
+    switch (sortMode) {
+      case 'started':
+        // Guides the reader has started but not finished, most recently read first
+        return isFinished(repo) ? 0 : -stateOf(repo).lastReadAt;
+      case 'updated': {
+        // Missing or unparseable dates sort last instead of making the comparison NaN
+        const pushedAt = repo.pushed_at ? Date.parse(repo.pushed_at) : NaN;
+        return Number.isFinite(pushedAt) ? -pushedAt : Infinity;
+      }
+      case 'title':
+        return 0;
+      case 'chapters':
+        return repo.chapterCount ?? Infinity;
+      case 'difficulty':
+        return repo.taxonomy?.difficulty ? DIFFICULTY_RANK[repo.taxonomy.difficulty] : Infinity;
+      case 'progress':
+        return repo.chapterCount ? -stateOf(repo).completedChapters / repo.chapterCount : 0;
+    }
+  };
+
+  const sortModes: GuideSortMode[] = mode === 'started' ? ['started', 'updated'] : [mode];
+
+  return [...repos].sort((a, b) => {
+    for (const sortMode of sortModes) {
+      const keyA = keyOf(a, sortMode);
+      const keyB = keyOf(b, sortMode);
+      if (keyA !== keyB) return keyA < keyB ? -1 : 1;
+    }
+    return getGuideTitle(a).localeCompare(getGuideTitle(b));
+  });
+}
+
+/**
+ * Splits guides into one group per language or topic, keeping their order within
+ * each group. A guide with several values is listed in each of their groups, and
+ * guides without any end up in a trailing "Other" group.
+ */
+export function groupGuides(repos: Repository[], mode: GuideGroupMode): GuideGroup[] {
+  if (mode === 'none') {
+    return [{ key: '', label: '', repos }];
+  }
+
+  const groups = new Map<string, Repository[]>();
+  const other: Repository[] = [];
+  repos.forEach((repo) => {
+    const values = (mode === 'language' ? repo.taxonomy?.languages : repo.taxonomy?.topics) || [];
+    if (values.length === 0) other.push(repo);
+    values.forEach((value) => groups.set(value, [...(groups.get(value) || []), repo]));
+  });
+
+  const result: GuideGroup[] = Array.from(groups.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, groupRepos]) => ({ key, label: formatFacetValue(key), repos: groupRepos }));
+  if (other.length > 0) {
+    result.push({ key: '', label: 'Other', repos: other });
+  }
+  return result;
+}
+
+function getGuideTitle(repo: Repository): string {
+  return repo.readmeTitle || repo.name;
+}
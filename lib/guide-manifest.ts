@@ -0,0 +1,170 @@
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import { parse as parseYaml } from 'yaml';
+import type { ChapterDifficulty } from './chapter-meta';
+import { normalizeLanguage, GuideStatus, GuideTaxonomy } from './guide-taxonomy';
+import schema from './guide-manifest.schema.json';
+
+/**
+ * Optional manifest at the root of a guide repository. When present it is
+ * used instead of the conventions the site otherwise infers the guide from
+ * (README headings, "Part N" sections in docs/README.md, file name order).
+ * The format is defined by lib/guide-manifest.schema.json:
+ *
+ * title: Build Your Own Shell
+ * description: Write a POSIX shell in C, one system call at a time.
+ * languages: [C]
+ * topics: [shell, processes]
+ * difficulty: intermediate
+ * status: complete
+ * parts:
+ *   - title: Running programs
+ *     chapters: [01_introduction, 02_processes]
+ *   - title: Parsing
+ *     chapters: [part-2-parser/04_tokens]
+ * assets:
+ *   - path: starter/
+ *     title: Starter code
+ */
+export const GUIDE_MANIFEST_FILES = ['guide.json', 'guide.yaml', 'guide.yml'];
+
+export interface GuideManifestPart {
+  title: string;
+  description?: string;
+  /** Chapter slugs, relative to the docs folder */
+  chapters: string[];
+}
+
+export interface GuideManifestAsset {
+  /** Repository path of a file or folder */
+  path: string;
+  title: string;
+  description?: string;
+}
+
+export interface GuideManifest {
+  title?: string;
+  description?: string;
+  taxonomy: Partial<GuideTaxonomy>;
+  parts?: GuideManifestPart[];
+  /** Chapter slugs in reading order, from `parts` or `chapters` */
+  chapterOrder?: string[];
+  assets: GuideManifestAsset[];
+}
+
+export interface GuideManifestResult {
+  /** Repository path the manifest was read from */
+  file: string;
+  /** Null when the manifest is invalid */
+  manifest: GuideManifest | null;
+  /** Readable validation errors, e.g. `parts[1]: missing required field "chapters"` */
+  errors: string[];
+}
+
+interface ManifestFields {
+  title?: string;
+  description?: string;
+  language?: string;
+  languages?: string[];
+  topics?: string[];
+  difficulty?: ChapterDifficulty;
+  status?: GuideStatus;
+  parts?: GuideManifestPart[];
+  chapters?: string[];
+  assets?: GuideManifestAsset[];
+}
+
+let validator: ValidateFunction<ManifestFields> | null = null;
+
+function getValidator(): ValidateFunction<ManifestFields> {
+  if (!validator) {
+    validator = new Ajv({ allErrors: true }).compile<ManifestFields>(schema);
+  }
+  return validator;
+}
+
+/**
+ * Parses and validates a manifest. JSON or YAML is picked by the file extension.
+ */
+export function parseGuideManifest(content: string, file: string): GuideManifestResult {
+  let data: unknown;
+  try {
+    data = file.endsWith('.json') ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message.split('\n')[0].replace(/:$/, '') : String(error);
+    return { file, manifest: null, errors: [`not valid ${file.endsWith('.json') ? 'JSON' : 'YAML'}: ${reason}`] };
+  }
+
+  const validate = getValidator();
+  if (!validate(data)) {
+    return { file, manifest: null, errors: (validate.errors || []).map(formatError) };
+  }
+
+  const errors: string[] = [];
+  if (data.parts && data.chapters) {
+    errors.push('use either "parts" or "chapters" to order chapters, not both');
+  }
+  if (data.language && data.languages) {
+    errors.push('use either "language" or "languages", not both');
+  }
+  const parts = data.parts?.map((part) => ({ ...part, chapters: part.chapters.map(normalizeChapterRef) }));
+  const chapterOrder = parts ? parts.flatMap((part) => part.chapters) : data.chapters?.map(normalizeChapterRef);
+  const duplicates = chapterOrder?.filter((slug, index) => chapterOrder.indexOf(slug) !== index) || [];
+  if (duplicates.length > 0) {
+    errors.push(`chapters listed more than once: ${Array.from(new Set(duplicates)).join(', ')}`);
+  }
+  if (errors.length > 0) {
+    return { file, manifest: null, errors };
+  }
+
+  const languages = data.languages || (data.language ? [data.language] : []);
+  return {
+    file,
+    manifest: {
+      title: data.title,
+      description: data.description,
+      taxonomy: {
+        languages: languages.map(normalizeLanguage),
+        topics: (data.topics || []).map((topic) => topic.toLowerCase()),
+        difficulty: data.difficulty,
+        status: data.status,
+      },
+      parts,
+      chapterOrder,
+      assets: (data.assets || []).map((asset) => ({ ...asset, path: asset.path.replace(/^\.?\//, '').replace(/\/$/, '') })),
+    },
+    errors: [],
+  };
+}
+
+// Accept "./02_processes.md" as well as "02_processes"
+function normalizeChapterRef(ref: string): string {
+  return ref.replace(/^\.\//, '').replace(/\.md$/, '');
+}
+
+function formatError(error: ErrorObject): string {
+  // "/parts/1/chapters" -> "parts[1].chapters"
+  const path = error.instancePath
+    .split('/')
+    .slice(1)
+    .map((segment) => (/^\d+$/.test(segment) ? `[${segment}]` : `.${segment}`))
+    .join('')
+    .replace(/^\./, '');
+  const at = path ? `${path}: ` : '';
+
+  switch (error.keyword) {
+    case 'additionalProperties':
+      return `${at}unknown field "${error.params.additionalProperty}"`;
+    case 'required':
+      return `${at}missing required field "${error.params.missingProperty}"`;
+    case 'enum':
+      return `${at}must be one of ${(error.params.allowedValues as string[]).map((value) => `"${value}"`).join(', ')}`;
+    case 'type':
+      return `${at}must be ${error.params.type === 'array' ? 'a list' : `a ${error.params.type}`}`;
+    case 'minLength':
+      return `${at}must not be empty`;
+    case 'minItems':
+      return `${at}must list at least ${error.params.limit} item${error.params.limit === 1 ? '' : 's'}`;
+    default:
+      return `${at}${error.message}`;
+  }
+}
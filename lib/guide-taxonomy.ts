@@ -0,0 +1,160 @@
+import { normalizeDifficulty, ChapterDifficulty } from './chapter-meta';
+
+/**
+ * Structured metadata used to tag and filter guides. Read from the guide's
+ * manifest (see lib/guide-manifest.ts), with GitHub topics filling in anything
+ * the manifest leaves out.
+ */
+export interface GuideTaxonomy {
+  /** Implementation languages, e.g. ["C"] */
+  languages: string[];
+  /** What the guide builds or covers, e.g. ["shell", "processes"] */
+  topics: string[];
+  difficulty?: ChapterDifficulty;
+  status?: GuideStatus;
+}
+
+/** How finished the guide itself is */
+export type GuideStatus = 'draft' | 'in-progress' | 'complete';
+
+export type TaxonomyFacet = 'language' | 'topic' | 'difficulty' | 'status';
+
+/** Facets in the order they are shown; also the query parameter names on the homepage */
+export const TAXONOMY_FACETS: Array<{ key: TaxonomyFacet; label: string }> = [
+  { key: 'language', label: 'Language' },
+  { key: 'topic', label: 'Topic' },
+  { key: 'difficulty', label: 'Difficulty' },
+  { key: 'status', label: 'Status' },
+];
+
+export type FacetSelection = Record<TaxonomyFacet, string[]>;
+
+const LANGUAGE_NAMES: Record<string, string> = {
+  c: 'C',
+  cpp: 'C++',
+  'c++': 'C++',
+  rust: 'Rust',
+  go: 'Go',
+  golang: 'Go',
+  zig: 'Zig',
+  python: 'Python',
+  java: 'Java',
+  javascript: 'JavaScript',
+  typescript: 'TypeScript',
+  haskell: 'Haskell',
+  ocaml: 'OCaml',
+  assembly: 'Assembly',
+  asm: 'Assembly',
+};
+
+const VALUE_LABELS: Record<string, string> = {
+  beginner: 'Beginner',
+  intermediate: 'Intermediate',
+  advanced: 'Advanced',
+  draft: 'Draft',
+  'in-progress': 'In progress',
+  complete: 'Complete',
+};
+
+/**
+ * Display label for a facet value ("in-progress" -> "In progress"); languages and topics are shown as is
+ */
+export function formatFacetValue(value: string): string {
+  return VALUE_LABELS[value] || value;
+}
+
+export function createEmptyTaxonomy(): GuideTaxonomy {
+  return { languages: [], topics: [] };
+}
+
+export function normalizeLanguage(value: string): string {
+  return LANGUAGE_NAMES[value.trim().toLowerCase()] || value.trim();
+}
+
+/**
+ * Sorts GitHub topics into taxonomy fields: known language names become
+ * languages, "beginner"/"advanced" and the like set the difficulty, and
+ * everything else is a topic.
+ */
+export function taxonomyFromTopics(topics: string[]): GuideTaxonomy {
+  const taxonomy = createEmptyTaxonomy();
+  topics.forEach((topic) => {
+    const key = topic.toLowerCase();
+    const difficulty = normalizeDifficulty(key);
+    if (LANGUAGE_NAMES[key]) {
+      taxonomy.languages.push(LANGUAGE_NAMES[key]);
+    } else if (difficulty && !taxonomy.difficulty) {
+      taxonomy.difficulty = difficulty;
+    } else if (key !== 'implement-from-scratch') {
+      taxonomy.topics.push(key);
+    }
+  });
+  return taxonomy;
+}
+
+/**
+ * Fills the fields `primary` leaves empty from `fallback`
+ */
+export function mergeTaxonomy(primary: Partial<GuideTaxonomy>, fallback: GuideTaxonomy): GuideTaxonomy {
+  return {
+    languages: primary.languages?.length ? primary.languages : fallback.languages,
+    topics: primary.topics?.length ? primary.topics : fallback.topics,
+    difficulty: primary.difficulty || fallback.difficulty,
+    status: primary.status || fallback.status,
+  };
+}
+
+/**
+ * The values a guide has for a facet
+ */
+export function getFacetValues(taxonomy: GuideTaxonomy, facet: TaxonomyFacet): string[] {
+  switch (facet) {
+    case 'language':
+      return taxonomy.languages;
+    case 'topic':
+      return taxonomy.topics;
+    case 'difficulty':
+      return taxonomy.difficulty ? [taxonomy.difficulty] : [];
+    case 'status':
+      return taxonomy.status ? [taxonomy.status] : [];
+  }
+}
+
+/**
+ * Whether a guide passes the selected filters: any selected value within a
+ * facet matches, and every facet with a selection has to match
+ */
+export function matchesFacets(taxonomy: GuideTaxonomy, selection: FacetSelection): boolean {
+  return TAXONOMY_FACETS.every(({ key }) => {
+    const selected = selection[key];
+    if (selected.length === 0) return true;
+    const values = getFacetValues(taxonomy, key);
+    return selected.some((value) => values.includes(value));
+  });
+}
+
+/**
+ * Reads the facet selection from query parameters like `?language=C,Rust&topic=shell`
+ */
+export function parseFacetSelection(params: URLSearchParams): FacetSelection {
+  const selection = {} as FacetSelection;
+  TAXONOMY_FACETS.forEach(({ key }) => {
+    selection[key] = (params.get(key) || '').split(',').map((value) => value.trim()).filter(Boolean);
+  });
+  return selection;
+}
+
+/**
+ * Writes the facet selection into `params`, leaving other parameters alone
+ */
+export function writeFacetSelection(params: URLSearchParams, selection: FacetSelection): URLSearchParams {
+  const next = new URLSearchParams(params);
+  TAXONOMY_FACETS.forEach(({ key }) => {
+    if (selection[key].length > 0) {
+      next.set(key, selection[key].join(','));
+    } else {
+      next.delete(key);
+    }
+  });
+  return next;
+}
@@ -0,0 +1,33 @@
+/**
+ * Turns heading text into an anchor id the way GitHub does, so "#fork-and-exec"
+ * links written against the repository keep working on the site:
+ * "Fork & Exec()" -> "fork--exec"
+ */
+export function slugifyHeading(text: string): string {
+  return text
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+    .replace(/\s/g, '-');
+}
+
+/**
+ * Creates a slugger that suffixes repeated headings ("setup", "setup-1", ...)
+ * like GitHub. Use one per document.
+ */
+export function createHeadingSlugger() {
+  const seen = new Map<string, number>();
+
+  return (text: string): string => {
+    const base = slugifyHeading(text);
+    let slug = base;
+    let count = seen.get(base) ?? 0;
+    while (seen.has(slug)) {
+      count += 1;
+      slug = `${base}-${count}`;
+    }
+    seen.set(base, count);
+    seen.set(slug, 0);
+    return slug;
+  };
+}
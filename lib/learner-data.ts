@@ -0,0 +1,75 @@
+import { annotationsData } from './annotations-store';
+import { bookmarksData } from './bookmarks-store';
+import { progressData } from './progress-store';
+
+/**
+ * A piece of browser-only learner state that can be exported and merged back in.
+ * Register new stores in STORES below so they travel with the export file.
+ */
+export interface LearnerDataStore<T = unknown> {
+  /** Key of the store's data in the export file */
+  id: string;
+  collect(): T;
+  /** Merges imported data into local state, newest entry winning; returns how many entries changed */
+  merge(incoming: T): number;
+  /** Calls `listener` when the data changes in this tab */
+  subscribe(listener: () => void): () => void;
+}
+
+export const LEARNER_DATA_FORMAT = 'implement-from-scratch/learner-data';
+export const LEARNER_DATA_VERSION = 1;
+
+export interface LearnerDataExport {
+  format: typeof LEARNER_DATA_FORMAT;
+  version: number;
+  exportedAt: string;
+  data: Record<string, unknown>;
+}
+
+const STORES: LearnerDataStore<any>[] = [progressData, annotationsData, bookmarksData];
+
+export function exportLearnerData(): LearnerDataExport {
+  return {
+    format: LEARNER_DATA_FORMAT,
+    version: LEARNER_DATA_VERSION,
+    exportedAt: new Date().toISOString(),
+    data: Object.fromEntries(STORES.map((store) => [store.id, store.collect()])),
+  };
+}
+
+/**
+ * Calls `listener` whenever any registered store changes in this tab
+ */
+export function subscribeToLearnerData(listener: () => void): () => void {
+  const unsubscribers = STORES.map((store) => store.subscribe(listener));
+  return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+}
+
+/**
+ * Validates an export file and merges every known store it contains.
+ * Throws with a readable message when the file isn't a learner data export.
+ */
+export function importLearnerData(json: string): Record<string, number> {
+  let parsed: Partial<LearnerDataExport>;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  if (parsed?.format !== LEARNER_DATA_FORMAT || typeof parsed.data !== 'object' || parsed.data === null) {
+    throw new Error('The file is not a progress export from this site.');
+  }
+  if (typeof parsed.version !== 'number' || parsed.version > LEARNER_DATA_VERSION) {
+    throw new Error('The file was exported by a newer version of the site.');
+  }
+
+  const changes: Record<string, number> = {};
+  for (const store of STORES) {
+    const incoming = parsed.data[store.id];
+    if (incoming !== undefined) {
+      changes[store.id] = store.merge(incoming);
+    }
+  }
+  return changes;
+}
@@ -0,0 +1,262 @@
+import { getChapters, getFileContent, getRepoContents, getRepoInfo, readGuideManifest } from './github';
+import { getConfiguredGuides } from './repos';
+import { createHeadingSlugger } from './heading-slug';
+import { resolveRepoPath } from './link-resolver';
+import { extractSnippet, getSourceText, parseSnippetDirectives, resolveSnippetPath, SnippetDirective } from './source-snippet';
+
+export type LinkIssueKind =
+  | 'broken-link'
+  | 'missing-image'
+  | 'missing-anchor'
+  | 'unmatched-roadmap-entry'
+  | 'unlisted-chapter'
+  | 'invalid-manifest'
+  | 'broken-snippet';
+
+export interface LinkIssue {
+  kind: LinkIssueKind;
+  /** Repository path of the file containing the reference */
+  file: string;
+  line?: number;
+  /** The href or src as written */
+  target?: string;
+  message: string;
+}
+
+export interface GuideLinkReport {
+  repo: string;
+  checkedFiles: number;
+  issues: LinkIssue[];
+}
+
+interface Reference {
+  url: string;
+  line?: number;
+}
+
+interface ParsedFile {
+  links: Reference[];
+  images: Reference[];
+  snippets: Array<{ directive: SnippetDirective; line?: number }>;
+  anchors: Set<string>;
+}
+
+export const LINK_ISSUE_LABELS: Record<LinkIssueKind, string> = {
+  'broken-link': 'Broken link',
+  'missing-image': 'Missing image',
+  'missing-anchor': 'Missing anchor',
+  'unmatched-roadmap-entry': 'Roadmap entry without chapter',
+  'unlisted-chapter': 'Chapter missing from roadmap',
+  'invalid-manifest': 'Invalid guide manifest',
+  'broken-snippet': 'Broken source snippet',
+};
+
+/**
+ * Checks every reference in a guide's README, docs/README.md and chapters:
+ * relative links and images must point to existing files, #anchors to existing
+ * headings, and the roadmap (the manifest's parts, or else docs/README.md) must
+ * list exactly the chapters on disk. The guide manifest itself has to be valid,
+ * and `<<<` source snippets must point to lines or regions that exist.
+ */
+export async function checkGuideLinks(repoName: string): Promise<GuideLinkReport> {
+  const [repo, chapters, manifestResult] = await Promise.all([
+    getRepoInfo(repoName),
+    getChapters(repoName),
+    readGuideManifest(repoName),
+  ]);
+  const manifest = manifestResult?.manifest;
+  const roadmapPath = `${repo.docsPath}/README.md`;
+  // With parts in the manifest, docs/README.md is an ordinary page rather than the roadmap
+  const roadmapFromReadme = !manifest?.parts;
+  const chapterPaths = new Set(chapters.map((chapter) => chapter.path));
+  const issues: LinkIssue[] = [];
+
+  const files = new Map<string, ParsedFile>();
+  for (const filePath of ['README.md', roadmapPath, ...Array.from(chapterPaths)]) {
+    const content = await getFileContent(repoName, filePath);
+    if (content !== null) {
+      files.set(filePath, await parseMarkdownReferences(content));
+    }
+  }
+
+  // Directory listings, fetched once per folder
+  const listings = new Map<string, Promise<Set<string>>>();
+  const exists = async (repoPath: string): Promise<boolean> => {
+    if (repoPath === '.' || files.has(repoPath)) return true;
+    const separator = repoPath.lastIndexOf('/');
+    const dir = separator === -1 ? '' : repoPath.slice(0, separator);
+    if (!listings.has(dir)) {
+      listings.set(dir, getRepoContents(repoName, dir).then((items) => new Set(items.map((item) => item.path))));
+    }
+    return (await listings.get(dir)!).has(repoPath);
+  };
+
+  const listedChapters = new Set<string>();
+
+  for (const [filePath, parsed] of Array.from(files.entries())) {
+    for (const { url, line } of parsed.links) {
+      const hash = url.includes('#') ? safeDecode(url.slice(url.indexOf('#') + 1)) : '';
+
+      if (url.startsWith('#')) {
+        if (hash && !parsed.anchors.has(hash)) {
+          issues.push({ kind: 'missing-anchor', file: filePath, line, target: url, message: `No heading "#${hash}" in this file` });
+        }
+        continue;
+      }
+
+      const targetPath = resolveRepoPath(filePath, url);
+      if (targetPath === null) continue;
+
+      if (roadmapFromReadme && filePath === roadmapPath && chapterPaths.has(targetPath)) {
+        listedChapters.add(targetPath);
+      }
+
+      if (!(await exists(targetPath))) {
+        const isRoadmapEntry = roadmapFromReadme && filePath === roadmapPath && targetPath.endsWith('.md');
+        issues.push({
+          kind: isRoadmapEntry ? 'unmatched-roadmap-entry' : 'broken-link',
+          file: filePath,
+          line,
+          target: url,
+          message: isRoadmapEntry
+            ? `Roadmap links to ${targetPath}, which is not a chapter, so it is left out of the roadmap`
+            : `${targetPath} does not exist`,
+        });
+        continue;
+      }
+
+      const target = files.get(targetPath);
+      if (hash && target && !target.anchors.has(hash)) {
+        issues.push({ kind: 'missing-anchor', file: filePath, line, target: url, message: `No heading "#${hash}" in ${targetPath}` });
+      }
+    }
+
+    for (const { url, line } of parsed.images) {
+      const targetPath = resolveRepoPath(filePath, url);
+      if (targetPath !== null && !(await exists(targetPath))) {
+        issues.push({ kind: 'missing-image', file: filePath, line, target: url, message: `${targetPath} does not exist` });
+      }
+    }
+
+    for (const { directive, line } of parsed.snippets) {
+      const target = `${directive.path}${directive.fragment ? `#${directive.fragment}` : ''}`;
+      const targetPath = resolveSnippetPath(filePath, directive.path);
+      const content = targetPath === null ? null : await getFileContent(repoName, targetPath);
+      const error = content === null ? `${targetPath ?? directive.path} does not exist` : extractSnippet(content, directive.fragment).error;
+      if (error) {
+        issues.push({ kind: 'broken-snippet', file: filePath, line, target, message: error });
+      }
+    }
+  }
+
+  if (manifestResult) {
+    const manifestIssue = (message: string, target?: string) =>
+      issues.push({ kind: 'invalid-manifest', file: manifestResult.file, target, message });
+
+    manifestResult.errors.forEach((error) => manifestIssue(`${error}; the manifest is ignored until this is fixed`));
+
+    const chapterSlugs = new Set(chapters.map((chapter) => chapter.slug));
+    manifest?.chapterOrder
+      ?.filter((slug) => !chapterSlugs.has(slug))
+      .forEach((slug) => manifestIssue(`Lists chapter "${slug}", but there is no ${repo.docsPath}/${slug}.md`, slug));
+
+    for (const asset of manifest?.assets || []) {
+      if (!(await exists(asset.path))) {
+        manifestIssue(`Asset "${asset.title}" points to ${asset.path}, which does not exist`, asset.path);
+      }
+    }
+  }
+
+  if (manifestResult && manifest?.parts) {
+    const partChapters = new Set(manifest.chapterOrder);
+    chapters
+      .filter((chapter) => !partChapters.has(chapter.slug))
+      .forEach((chapter) => {
+        issues.push({
+          kind: 'unlisted-chapter',
+          file: manifestResult.file,
+          target: chapter.path,
+          message: `Chapter "${chapter.title}" is not in any of the manifest's parts`,
+        });
+      });
+  } else if (files.has(roadmapPath)) {
+    // Without a docs/README.md the roadmap is built from the folder layout, so nothing can be missing
+    chapters
+      .filter((chapter) => !listedChapters.has(chapter.path))
+      .forEach((chapter) => {
+        issues.push({
+          kind: 'unlisted-chapter',
+          file: roadmapPath,
+          target: chapter.path,
+          message: `Chapter "${chapter.title}" is not linked from the roadmap`,
+        });
+      });
+  }
+
+  return { repo: repo.slug, checkedFiles: files.size, issues };
+}
+
+/**
+ * Runs checkGuideLinks for every guide in config/repos.ts
+ */
+export async function checkAllGuides(): Promise<GuideLinkReport[]> {
+  const reports: GuideLinkReport[] = [];
+  for (const guide of getConfiguredGuides()) {
+    reports.push(await checkGuideLinks(guide.slug));
+  }
+  return reports;
+}
+
+async function parseMarkdownReferences(content: string): Promise<ParsedFile> {
+  const { remark } = await import('remark');
+  const { default: remarkParse } = await import('remark-parse');
+  const { default: remarkGfm } = await import('remark-gfm');
+
+  // Blank out frontmatter so its lines aren't read as a heading, keeping line numbers intact
+  const body = content.replace(/^---\r?\n[\s\S]*?\r?\n---(?:\r?\n|$)/, (frontmatter) =>
+    frontmatter.replace(/[^\n]/g, '')
+  );
+  const tree = remark().use(remarkParse).use(remarkGfm).parse(body);
+
+  const parsed: ParsedFile = { links: [], images: [], snippets: [], anchors: new Set() };
+  const slugger = createHeadingSlugger();
+
+  const visit = (node: any) => {
+    const line = node.position?.start.line;
+    if (node.type === 'heading') {
+      parsed.anchors.add(slugger(getText(node)));
+    } else if (node.type === 'link' || node.type === 'definition') {
+      parsed.links.push({ url: node.url, line });
+    } else if (node.type === 'image') {
+      parsed.images.push({ url: node.url, line });
+    } else if (node.type === 'paragraph') {
+      parseSnippetDirectives(getSourceText(node, body))?.forEach((directive, index) => {
+        parsed.snippets.push({ directive, line: line === undefined ? undefined : line + index });
+      });
+    } else if (node.type === 'html') {
+      // Explicit anchors such as <a id="setup"></a>
+      const anchorPattern = /\b(?:id|name)=["']([^"']+)["']/g;
+      let match;
+      while ((match = anchorPattern.exec(node.value))) {
+        parsed.anchors.add(match[1]);
+      }
+    }
+    node.children?.forEach(visit);
+  };
+  visit(tree);
+
+  return parsed;
+}
+
+function getText(node: any): string {
+  if (typeof node.value === 'string') return node.value;
+  return (node.children || []).map(getText).join('');
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
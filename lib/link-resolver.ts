@@ -0,0 +1,84 @@
+import path from 'path';
+
+/**
+ * What a rendered markdown file needs to know to resolve its relative links
+ */
+export interface LinkContext {
+  /** URL slug of the guide */
+  repoSlug: string;
+  /** Repository path of the file being rendered, e.g. "docs/01_introduction.md" */
+  filePath: string;
+  docsPath: string;
+  /** Chapter file paths mapped to chapter slugs */
+  chapterSlugs: Record<string, string>;
+  /** Raw file URL prefix at the rendered ref (no trailing slash) */
+  rawBaseUrl: string;
+  /** GitHub blob view URL prefix at the rendered ref (no trailing slash) */
+  blobBaseUrl: string;
+}
+
+const EXTERNAL_URL = /^([a-z][a-z\d+.-]*:|\/\/)/i;
+
+/**
+ * Resolves a link relative to the file it appears in, returning a repository
+ * path (or null for external links, pure anchors and paths outside the repo).
+ * Links starting with "/" are relative to the repository root, as on GitHub.
+ */
+export function resolveRepoPath(fromFile: string, href: string): string | null {
+  if (!href || EXTERNAL_URL.test(href) || href.startsWith('#')) {
+    return null;
+  }
+
+  const target = safeDecodeURI(href.replace(/[?#].*$/, ''));
+  const resolved = target.startsWith('/')
+    ? path.posix.normalize(target.slice(1))
+    : path.posix.join(path.posix.dirname(fromFile), target);
+
+  if (resolved.startsWith('..')) {
+    return null;
+  }
+  return resolved.replace(/\/$/, '') || '.';
+}
+
+/**
+ * Maps a link in guide content to where it should point on the site:
+ * - other chapters -> /[repo]/[chapter], keeping the #anchor
+ * - the guide README or docs/README.md -> /[repo]
+ * - any other repository file or folder -> the GitHub blob view
+ * External links and in-page anchors are returned unchanged.
+ */
+export function resolveLinkHref(href: string, context: LinkContext): string {
+  const repoPath = resolveRepoPath(context.filePath, href);
+  if (repoPath === null) {
+    return href;
+  }
+
+  const hash = href.includes('#') ? href.slice(href.indexOf('#')) : '';
+
+  const chapterSlug = context.chapterSlugs[repoPath];
+  if (chapterSlug) {
+    return `/${context.repoSlug}/${chapterSlug}${hash}`;
+  }
+
+  if (repoPath === 'README.md' || repoPath === `${context.docsPath}/README.md` || repoPath === '.') {
+    return `/${context.repoSlug}${hash}`;
+  }
+
+  return `${context.blobBaseUrl}/${encodeURI(repoPath)}${hash}`;
+}
+
+/**
+ * Maps a relative image source to its raw file URL
+ */
+export function resolveAssetUrl(src: string, context: LinkContext): string {
+  const repoPath = resolveRepoPath(context.filePath, src);
+  return repoPath === null ? src : `${context.rawBaseUrl}/${encodeURI(repoPath)}`;
+}
+
+function safeDecodeURI(value: string): string {
+  try {
+    return decodeURI(value);
+  } catch {
+    return value;
+  }
+}
@@ -0,0 +1,317 @@
+import type { LearnerDataStore } from './learner-data';
+
+/**
+ * Reading progress per guide, kept in localStorage under `progress_<repo>`.
+ * Chapters are keyed by slug so reordering or inserting chapters keeps progress intact.
+ * Browser-only: every function is a no-op (or returns empty progress) on the server.
+ */
+
+export const PROGRESS_SCHEMA_VERSION = 1;
+
+const STORAGE_KEY_PREFIX = 'progress_';
+const CHANGE_EVENT = 'guide-progress-change';
+
+/** Scroll depth from which a visited chapter counts as in progress */
+const IN_PROGRESS_DEPTH = 0.15;
+
+export interface ChapterProgress {
+  /** First time the chapter was opened (ms since epoch) */
+  visitedAt?: number;
+  /** Furthest point scrolled to, from 0 to 1 */
+  scrollDepth: number;
+  /** Set when the reader marks the chapter as done */
+  completedAt?: number;
+  /** Heading the reader was last at, to resume from */
+  lastSection?: { id: string; text: string };
+  /** Ids of h2 sections ticked off by the reader */
+  checkedSections?: string[];
+  updatedAt: number;
+}
+
+export interface GuideProgress {
+  version: typeof PROGRESS_SCHEMA_VERSION;
+  chapters: Record<string, ChapterProgress>;
+  updatedAt: number;
+}
+
+export type ChapterStatus = 'not-started' | 'visited' | 'in-progress' | 'completed';
+
+export function getStorageKey(repoName: string): string {
+  return `${STORAGE_KEY_PREFIX}${repoName}`;
+}
+
+export function createEmptyProgress(): GuideProgress {
+  return { version: PROGRESS_SCHEMA_VERSION, chapters: {}, updatedAt: 0 };
+}
+
+/**
+ * Reads a guide's progress. Data from older versions is migrated when
+ * `chapterSlugs` (in reading order) is given, since the first format stored
+ * chapter indexes; without it, legacy data is left untouched for later.
+ */
+export function readGuideProgress(repoName: string, chapterSlugs?: string[]): GuideProgress {
+  if (typeof window === 'undefined') return createEmptyProgress();
+
+  try {
+    const stored = localStorage.getItem(getStorageKey(repoName));
+    if (!stored) return createEmptyProgress();
+
+    const parsed = JSON.parse(stored) as unknown;
+    if (isGuideProgress(parsed)) return parsed;
+
+    if (Array.isArray(parsed)) {
+      if (!chapterSlugs) return createEmptyProgress();
+      const migrated = migrateLegacyProgress(parsed, chapterSlugs);
+      writeGuideProgress(repoName, migrated);
+      return migrated;
+    }
+  } catch (error) {
+    console.error('Failed to load progress from localStorage:', error);
+  }
+  return createEmptyProgress();
+}
+
+export function writeGuideProgress(repoName: string, progress: GuideProgress): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    localStorage.setItem(getStorageKey(repoName), JSON.stringify(progress));
+    window.dispatchEvent(new CustomEvent(CHANGE_EVENT, { detail: { repoName } }));
+  } catch (error) {
+    console.error('Failed to save progress to localStorage:', error);
+  }
+}
+
+function updateChapter(
+  repoName: string,
+  slug: string,
+  update: (chapter: ChapterProgress) => ChapterProgress | null
+): void {
+  // Writing now would replace chapters that can't be migrated without their slugs
+  if (hasLegacyProgress(repoName)) return;
+
+  const progress = readGuideProgress(repoName);
+  const current = progress.chapters[slug] || { scrollDepth: 0, updatedAt: 0 };
+  const next = update(current);
+  // null means nothing changed, so skip the write (and the change event)
+  if (!next) return;
+
+  const now = Date.now();
+  writeGuideProgress(repoName, {
+    ...progress,
+    chapters: { ...progress.chapters, [slug]: { ...next, updatedAt: now } },
+    updatedAt: now,
+  });
+}
+
+export function markChapterVisited(repoName: string, slug: string): void {
+  updateChapter(repoName, slug, (chapter) => (chapter.visitedAt ? null : { ...chapter, visitedAt: Date.now() }));
+}
+
+/**
+ * Records where the reader is: scroll depth only ever moves forward, while
+ * the current section follows the reader
+ */
+export function recordReadingPosition(
+  repoName: string,
+  slug: string,
+  position: { depth: number; section?: { id: string; text: string } }
+): void {
+  const rounded = Math.round(Math.min(Math.max(position.depth, 0), 1) * 100) / 100;
+  updateChapter(repoName, slug, (chapter) => {
+    const sectionChanged = !!position.section && position.section.id !== chapter.lastSection?.id;
+    if (rounded <= chapter.scrollDepth && !sectionChanged) return null;
+    return {
+      ...chapter,
+      visitedAt: chapter.visitedAt || Date.now(),
+      scrollDepth: Math.max(rounded, chapter.scrollDepth),
+      lastSection: position.section || chapter.lastSection,
+    };
+  });
+}
+
+export function setSectionChecked(repoName: string, slug: string, sectionId: string, checked: boolean): void {
+  updateChapter(repoName, slug, (chapter) => {
+    const sections = chapter.checkedSections || [];
+    if (checked === sections.includes(sectionId)) return null;
+    return {
+      ...chapter,
+      visitedAt: chapter.visitedAt || Date.now(),
+      checkedSections: checked ? [...sections, sectionId] : sections.filter((id) => id !== sectionId),
+    };
+  });
+}
+
+export function setChapterCompleted(repoName: string, slug: string, completed: boolean): void {
+  updateChapter(repoName, slug, (chapter) => {
+    if (completed === !!chapter.completedAt) return null;
+    return {
+      ...chapter,
+      visitedAt: chapter.visitedAt || Date.now(),
+      completedAt: completed ? Date.now() : undefined,
+    };
+  });
+}
+
+export function getChapterStatus(chapter?: ChapterProgress): ChapterStatus {
+  if (!chapter) return 'not-started';
+  if (chapter.completedAt) return 'completed';
+  if (chapter.scrollDepth >= IN_PROGRESS_DEPTH) return 'in-progress';
+  return chapter.visitedAt ? 'visited' : 'not-started';
+}
+
+export function countCompletedChapters(progress: GuideProgress, chapterSlugs: string[]): number {
+  return chapterSlugs.filter((slug) => getChapterStatus(progress.chapters[slug]) === 'completed').length;
+}
+
+/**
+ * Where to pick the guide back up: the chapter touched last, at the section the
+ * reader was on, or the next unfinished chapter if that one is completed
+ */
+export function getResumePoint(
+  progress: GuideProgress,
+  chapterSlugs: string[]
+): { slug: string; section?: { id: string; text: string } } | null {
+  const touched = chapterSlugs.filter((slug) => progress.chapters[slug]);
+  if (touched.length === 0) return null;
+
+  const lastSlug = touched.reduce((latest, slug) =>
+    progress.chapters[slug].updatedAt > progress.chapters[latest].updatedAt ? slug : latest
+  );
+
+  const last = progress.chapters[lastSlug];
+  if (!last.completedAt) {
+    return { slug: lastSlug, section: last.lastSection };
+  }
+
+  const lastIndex = chapterSlugs.indexOf(lastSlug);
+  const next = chapterSlugs.slice(lastIndex + 1).find((slug) => !progress.chapters[slug]?.completedAt);
+  return next ? { slug: next, section: progress.chapters[next]?.lastSection } : null;
+}
+
+/**
+ * Progress of every guide the reader has opened, keyed by guide slug
+ */
+export function readAllGuideProgress(): Record<string, GuideProgress> {
+  const guides: Record<string, GuideProgress> = {};
+  if (typeof window === 'undefined') return guides;
+
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key?.startsWith(STORAGE_KEY_PREFIX)) continue;
+    const repoName = key.slice(STORAGE_KEY_PREFIX.length);
+    // Left out until the guide is opened and its chapter indexes become slugs
+    if (hasLegacyProgress(repoName)) continue;
+    const progress = readGuideProgress(repoName);
+    if (Object.keys(progress.chapters).length > 0) {
+      guides[repoName] = progress;
+    }
+  }
+  return guides;
+}
+
+/**
+ * Calls `listener` whenever the guide's progress changes, in this tab or another
+ */
+export function subscribeToProgress(repoName: string, listener: () => void): () => void {
+  const key = getStorageKey(repoName);
+  const onChange = (event: Event) => {
+    if ((event as CustomEvent<{ repoName: string }>).detail?.repoName === repoName) listener();
+  };
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === key || event.key === null) listener();
+  };
+
+  window.addEventListener(CHANGE_EVENT, onChange);
+  window.addEventListener('storage', onStorage);
+  return () => {
+    window.removeEventListener(CHANGE_EVENT, onChange);
+    window.removeEventListener('storage', onStorage);
+  };
+}
+
+/**
+ * Calls `listener` whenever any guide's progress changes in this tab
+ */
+export function subscribeToAllProgress(listener: () => void): () => void {
+  window.addEventListener(CHANGE_EVENT, listener);
+  return () => window.removeEventListener(CHANGE_EVENT, listener);
+}
+
+/**
+ * Export/import adapter (see lib/learner-data.ts): every guide's progress,
+ * merged chapter by chapter with the most recently updated entry winning
+ */
+export const progressData: LearnerDataStore<Record<string, GuideProgress>> = {
+  id: 'progress',
+
+  collect: readAllGuideProgress,
+
+  merge(incoming) {
+    let changed = 0;
+    Object.entries(incoming || {}).forEach(([repoName, guide]) => {
+      // Merging would replace local progress that hasn't been migrated yet
+      if (!isGuideProgress(guide) || hasLegacyProgress(repoName)) return;
+
+      const local = readGuideProgress(repoName);
+      const chapters = { ...local.chapters };
+      let guideChanged = 0;
+      Object.entries(guide.chapters).forEach(([slug, chapter]) => {
+        if (typeof chapter?.updatedAt !== 'number') return;
+        if (!chapters[slug] || chapter.updatedAt > chapters[slug].updatedAt) {
+          chapters[slug] = chapter;
+          guideChanged++;
+        }
+      });
+
+      if (guideChanged > 0) {
+        writeGuideProgress(repoName, { ...local, chapters, updatedAt: Math.max(local.updatedAt, guide.updatedAt) });
+        changed += guideChanged;
+      }
+    });
+    return changed;
+  },
+
+  subscribe: subscribeToAllProgress,
+};
+
+/** Whether the guide's progress is still in the first format, waiting for readGuideProgress to migrate it */
+function hasLegacyProgress(repoName: string): boolean {
+  if (typeof window === 'undefined') return false;
+  try {
+    return Array.isArray(JSON.parse(localStorage.getItem(getStorageKey(repoName)) || 'null'));
+  } catch {
+    return false;
+  }
+}
+
+function isGuideProgress(value: unknown): value is GuideProgress {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (value as GuideProgress).version === PROGRESS_SCHEMA_VERSION &&
+    typeof (value as GuideProgress).chapters === 'object'
+  );
+}
+
+// The first format was an array of indexes into the chapter list as it was
+// then: the .md files directly in docs/, sorted by file name. It only recorded
+// that a chapter had been opened, so entries come back as visited.
+function migrateLegacyProgress(legacy: unknown[], chapterSlugs: string[]): GuideProgress {
+  const now = Date.now();
+  const progress = createEmptyProgress();
+  const legacyOrder = chapterSlugs
+    .filter((slug) => !slug.includes('/'))
+    .sort((a, b) => `${a}.md`.localeCompare(`${b}.md`));
+
+  legacy.forEach((item) => {
+    const slug = typeof item === 'number' ? legacyOrder[item] : typeof item === 'string' ? item : undefined;
+    // Indexes past the old list, or slugs of chapters that are gone, are dropped
+    if (slug && chapterSlugs.includes(slug)) {
+      progress.chapters[slug] = { visitedAt: now, scrollDepth: 0, updatedAt: now };
+    }
+  });
+
+  progress.updatedAt = now;
+  return progress;
+}
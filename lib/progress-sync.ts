@@ -0,0 +1,98 @@
+import { exportLearnerData, importLearnerData } from './learner-data';
+
+/**
+ * Client side of the optional progress sync (app/api/progress).
+ * A sync code is an anonymous shared secret: every browser that enters the
+ * same code reads and writes the same server document.
+ */
+
+const SYNC_CODE_KEY = 'sync_code';
+const SYNC_ENDPOINT = '/api/progress';
+
+// No 0/O or 1/I, so codes survive being read aloud or copied by hand
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const SYNC_CODE_PATTERN = /^[A-HJ-NP-Z2-9]{4}(-[A-HJ-NP-Z2-9]{4}){3}$/;
+
+export function isValidSyncCode(code: string): boolean {
+  return SYNC_CODE_PATTERN.test(code);
+}
+
+/**
+ * Normalizes user input ("abcd efgh-…") to the canonical form, or null if invalid
+ */
+export function normalizeSyncCode(input: string): string | null {
+  const compact = input.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  const code = compact.match(/.{1,4}/g)?.join('-') || '';
+  return isValidSyncCode(code) ? code : null;
+}
+
+export function generateSyncCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  const chars = Array.from(bytes, (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]);
+  return [0, 4, 8, 12].map((start) => chars.slice(start, start + 4).join('')).join('-');
+}
+
+export function getSyncCode(): string | null {
+  if (typeof window === 'undefined') return null;
+  return localStorage.getItem(SYNC_CODE_KEY);
+}
+
+export function setSyncCode(code: string | null): void {
+  if (code) {
+    localStorage.setItem(SYNC_CODE_KEY, code);
+  } else {
+    localStorage.removeItem(SYNC_CODE_KEY);
+  }
+}
+
+/**
+ * Whether the server has sync enabled
+ */
+export async function isSyncAvailable(): Promise<boolean> {
+  try {
+    const response = await fetch(SYNC_ENDPOINT);
+    return response.ok && (await response.json()).enabled === true;
+  } catch {
+    return false;
+  }
+}
+
+/** Attempts before giving up when other browsers keep saving in between */
+const MAX_SYNC_ATTEMPTS = 3;
+
+/**
+ * Reconciles local and remote state: merges the server copy into this browser
+ * (newest entry wins), then uploads the merged result. The upload only goes
+ * through if the server copy is still the one merged; otherwise it starts over.
+ * Returns how many local entries were updated from the server.
+ */
+export async function syncLearnerData(code: string): Promise<number> {
+  const url = `${SYNC_ENDPOINT}?code=${encodeURIComponent(code)}`;
+
+  let updated = 0;
+  for (let attempt = 1; attempt <= MAX_SYNC_ATTEMPTS; attempt++) {
+    const remote = await fetch(url, { cache: 'no-store' });
+    let version: string | null = null;
+    if (remote.ok) {
+      version = remote.headers.get('etag');
+      const changes = importLearnerData(await remote.text());
+      updated += Object.values(changes).reduce((sum, count) => sum + count, 0);
+    } else if (remote.status !== 404) {
+      throw new Error(`Sync failed (${remote.status})`);
+    }
+
+    const upload = await fetch(url, {
+      method: 'PUT',
+      headers: {
+        'content-type': 'application/json',
+        ...(version ? { 'if-match': version } : { 'if-none-match': '*' }),
+      },
+      body: JSON.stringify(exportLearnerData()),
+    });
+    if (upload.ok) return updated;
+    if (upload.status !== 412) {
+      throw new Error(`Sync failed (${upload.status})`);
+    }
+  }
+  throw new Error('Sync failed (progress kept changing on the server)');
+}
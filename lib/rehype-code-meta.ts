@@ -0,0 +1,170 @@
+interface HastNode {
+  type: string;
+  tagName?: string;
+  value?: string;
+  properties?: Record<string, unknown>;
+  children?: HastNode[];
+  data?: { meta?: string | null };
+}
+
+/** Options read from a fence's meta string, e.g. ```c title="src/main.c" {3-7} showLineNumbers */
+interface CodeFenceMeta {
+  title?: string;
+  /** 1-based line numbers to highlight */
+  highlightLines: Set<number>;
+  /** Number shown next to the first line, when line numbers are on */
+  lineNumbersStart?: number;
+  /** Mark lines starting with + and - as added and removed */
+  diff: boolean;
+  /** Line ranges folded away until the reader opens them */
+  collapse: Array<[number, number]>;
+}
+
+const TITLE = /(?:^|\s)title=(?:"([^"]*)"|'([^']*)'|(\S+))/;
+const HIGHLIGHT = /(?:^|\s)\{([\d,\s-]+)\}/;
+const LINE_NUMBERS = /(?:^|\s)showLineNumbers(?:\{(\d+)\})?(?=\s|$)/;
+const DIFF = /(?:^|\s)diff(?=\s|$)/;
+const COLLAPSE = /(?:^|\s)collapse=\{([\d,\s-]+)\}/;
+
+/** Parses the fence meta options understood by rehypeCodeMeta; unknown words are ignored */
+function parseCodeFenceMeta(meta: string): CodeFenceMeta {
+  const title = TITLE.exec(meta);
+  const highlight = HIGHLIGHT.exec(meta);
+  const lineNumbers = LINE_NUMBERS.exec(meta);
+  const collapse = COLLAPSE.exec(meta);
+
+  const highlightLines = new Set<number>();
+  for (const [start, end] of highlight ? parseRanges(highlight[1]) : []) {
+    for (let line = start; line <= end; line++) highlightLines.add(line);
+  }
+
+  return {
+    title: title ? (title[1] ?? title[2] ?? title[3]).trim() || undefined : undefined,
+    highlightLines,
+    lineNumbersStart: lineNumbers ? Number(lineNumbers[1] ?? 1) : undefined,
+    diff: DIFF.test(meta),
+    collapse: collapse ? parseRanges(collapse[1]) : [],
+  };
+}
+
+/** "1,3-5" -> [[1, 1], [3, 5]], sorted, with reversed and overlapping ranges dropped */
+function parseRanges(spec: string): Array<[number, number]> {
+  const ranges = spec
+    .split(',')
+    .map((part) => part.trim().match(/^(\d+)(?:\s*-\s*(\d+))?$/))
+    .filter((match): match is RegExpMatchArray => !!match)
+    .map((match): [number, number] => [Number(match[1]), Number(match[2] ?? match[1])])
+    .filter(([start, end]) => start >= 1 && end >= start)
+    .sort((a, b) => a[0] - b[0]);
+
+  return ranges.filter((range, index) => index === 0 || range[0] > ranges[index - 1][1]);
+}
+
+/**
+ * Rehype plugin applying fence meta to code blocks: `title="..."` becomes the
+ * file name in CodeBlock's header, and `{3-7}`, `showLineNumbers`, `diff` (or a
+ * ```diff fence) and `collapse={10-40}` split the highlighted code into one
+ * `span.code-line` per line, styled in globals.css. Runs after rehype-highlight,
+ * so tokens spanning several lines are split along with them.
+ */
+export function rehypeCodeMeta() {
+  return (tree: HastNode) => {
+    const visit = (node: HastNode) => {
+      if (node.tagName === 'pre') {
+        const code = node.children?.find((child) => child.tagName === 'code');
+        // Diagram sources are shown as text by components/Diagram.tsx
+        if (code && !node.properties?.dataDiagram) applyMeta(code);
+        return;
+      }
+      node.children?.forEach(visit);
+    };
+    visit(tree);
+  };
+}
+
+function applyMeta(code: HastNode) {
+  const classNames = (code.properties?.className as string[] | undefined) || [];
+  const meta = parseCodeFenceMeta(code.data?.meta || '');
+  const diff = meta.diff || classNames.includes('language-diff');
+
+  code.properties = { ...code.properties };
+  if (meta.title) code.properties.dataFilename = meta.title;
+
+  if (!diff && meta.highlightLines.size === 0 && meta.lineNumbersStart === undefined && meta.collapse.length === 0) {
+    return;
+  }
+
+  const lines = splitLines(code.children || []);
+  // The fence's trailing newline leaves an empty last line
+  if (lines.length > 1 && lines[lines.length - 1].length === 0) lines.pop();
+  const start = meta.lineNumbersStart ?? 1;
+
+  const lineElements = lines.map((children, index): HastNode => {
+    const text = children.map(getText).join('');
+    const properties: Record<string, unknown> = { className: ['code-line'], dataLine: start + index };
+    if (meta.highlightLines.has(index + 1)) properties.dataHighlighted = '';
+    if (diff && /^\+(?!\+\+\s)/.test(text)) properties.dataDiff = 'add';
+    if (diff && /^-(?!--\s)/.test(text)) properties.dataDiff = 'remove';
+    return { type: 'element', tagName: 'span', properties, children };
+  });
+
+  const children: HastNode[] = [];
+  let next = 0;
+  for (const [first, last] of meta.collapse) {
+    if (first > lineElements.length) break;
+    const end = Math.min(last, lineElements.length);
+    children.push(...withNewlines(lineElements.slice(next, first - 1)));
+    const hidden = end - first + 1;
+    children.push({
+      type: 'element',
+      tagName: 'details',
+      properties: { className: ['code-collapse'] },
+      children: [
+        {
+          type: 'element',
+          tagName: 'summary',
+          properties: {},
+          children: [{ type: 'text', value: `${hidden} collapsed ${hidden === 1 ? 'line' : 'lines'}` }],
+        },
+        ...withNewlines(lineElements.slice(first - 1, end)),
+      ],
+    });
+    next = end;
+  }
+  children.push(...withNewlines(lineElements.slice(next)));
+
+  code.children = children;
+  code.properties.dataCodeLines = '';
+  if (meta.lineNumbersStart !== undefined) code.properties.dataLineNumbers = '';
+}
+
+/** Splits highlighted code into lines, copying the token spans that cross a line break */
+function splitLines(nodes: HastNode[]): HastNode[][] {
+  const lines: HastNode[][] = [[]];
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      (node.value || '').split('\n').forEach((part, index) => {
+        if (index > 0) lines.push([]);
+        if (part) lines[lines.length - 1].push({ type: 'text', value: part });
+      });
+    } else if (node.type === 'element') {
+      splitLines(node.children || []).forEach((children, index) => {
+        if (index > 0) lines.push([]);
+        if (children.length > 0) lines[lines.length - 1].push({ ...node, children });
+      });
+    } else {
+      lines[lines.length - 1].push(node);
+    }
+  }
+  return lines;
+}
+
+// Newlines between the lines keep copied and selected text intact; the grid layout hides them
+function withNewlines(lines: HastNode[]): HastNode[] {
+  return lines.flatMap((line) => [line, { type: 'text', value: '\n' }]);
+}
+
+function getText(node: HastNode): string {
+  if (typeof node.value === 'string') return node.value;
+  return (node.children || []).map(getText).join('');
+}
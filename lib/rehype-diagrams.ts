@@ -0,0 +1,139 @@
+import { createHash } from 'crypto';
+import type { Viz } from '@viz-js/viz';
+import type { AsciiDiagramMode } from '@/config/diagrams';
+import { asciiDiagramToSvg, isAsciiDiagram, ASCII_DIAGRAM_LANGUAGES, PLAIN_TEXT_LANGUAGES } from './ascii-diagram';
+
+interface HastNode {
+  type: string;
+  tagName?: string;
+  value?: string;
+  properties?: Record<string, unknown>;
+  children?: HastNode[];
+}
+
+export type DiagramKind = 'mermaid' | 'dot' | 'ascii';
+
+interface DiagramsOptions {
+  /** Whether ASCII art is converted to SVG or kept as text; `ascii-svg` fences are always converted */
+  asciiDiagrams: AsciiDiagramMode;
+}
+
+/** Fence languages rendered as diagrams, mapped to the renderer that handles them */
+const DIAGRAM_LANGUAGES: Record<string, DiagramKind> = {
+  mermaid: 'mermaid',
+  dot: 'dot',
+  graphviz: 'dot',
+};
+
+let vizInstance: Promise<Viz> | null = null;
+
+function getViz(): Promise<Viz> {
+  if (!vizInstance) {
+    vizInstance = import('@viz-js/viz').then(({ instance }) => instance());
+  }
+  return vizInstance;
+}
+
+/**
+ * Rehype plugin marking diagram fences for CodeBlock: ```mermaid, ```dot and
+ * ASCII art (see lib/ascii-diagram.ts). Graphviz and, when enabled, ASCII art
+ * are rendered to SVG here, at build time, and stored in `data-diagram-svg`.
+ * Mermaid needs a browser to lay out text, so it is rendered on the client.
+ * Fences that fail to render keep their source and get `data-diagram-error`.
+ */
+export function rehypeDiagrams(options: DiagramsOptions) {
+  return async (tree: HastNode) => {
+    const fences: Array<{ pre: HastNode; kind: DiagramKind; language: string; source: string }> = [];
+
+    const visit = (node: HastNode) => {
+      const code = node.tagName === 'pre' ? node.children?.find((child) => child.tagName === 'code') : undefined;
+      if (code) {
+        const classNames = (code.properties?.className as string[] | undefined) || [];
+        const language = classNames.find((name) => name.startsWith('language-'))?.slice('language-'.length) || '';
+        const source = getText(code);
+        const kind =
+          DIAGRAM_LANGUAGES[language] ||
+          (ASCII_DIAGRAM_LANGUAGES.includes(language) || (PLAIN_TEXT_LANGUAGES.includes(language) && isAsciiDiagram(source))
+            ? 'ascii'
+            : undefined);
+        if (kind) {
+          fences.push({ pre: node, kind, language, source });
+          // Keep syntax highlighting away from the source, which CodeBlock reads as plain text
+          code.properties = { ...code.properties, className: classNames.filter((name) => !name.startsWith('language-')) };
+        }
+        return;
+      }
+      node.children?.forEach(visit);
+    };
+    visit(tree);
+
+    for (const [index, { pre, kind, language, source }] of fences.entries()) {
+      pre.properties = { ...pre.properties, dataDiagram: kind };
+
+      if (kind === 'ascii') {
+        const requested = language === 'ascii-svg';
+        if (!requested && options.asciiDiagrams !== 'svg') continue;
+        const svg = await asciiDiagramToSvg(source);
+        if (svg) {
+          pre.properties.dataDiagramSvg = svg;
+        } else if (requested) {
+          pre.properties.dataDiagramError = 'no lines or boxes found';
+        }
+        continue;
+      }
+      if (kind !== 'dot') continue;
+
+      try {
+        const result = (await getViz()).render(source, { format: 'svg' });
+        if (result.status === 'success') {
+          pre.properties.dataDiagramSvg = themeGraphvizSvg(sanitizeGraphvizSvg(result.output, getIdPrefix(source, index)));
+        } else {
+          pre.properties.dataDiagramError = result.errors.map((error) => error.message).join('\n');
+        }
+      } catch (error) {
+        console.error('Error rendering Graphviz diagram:', error);
+        pre.properties.dataDiagramError = 'Graphviz is not available';
+      }
+    }
+  };
+}
+
+/**
+ * Graphviz copies `URL`/`href` attributes into links and `id` attributes as
+ * they are written, and guide content can come from any repository: drop
+ * links, event handlers and external references, and prefix every id so two
+ * diagrams (or a diagram and the page) can't collide.
+ */
+function sanitizeGraphvizSvg(svg: string, idPrefix: string): string {
+  return svg
+    .replace(/<script\b[\s\S]*?<\/script>/gi, '')
+    .replace(/<foreignObject\b[\s\S]*?<\/foreignObject>/gi, '')
+    .replace(/<\/?a\b[^>]*>/gi, '')
+    .replace(/\s(?:xlink:)?href="[^"]*"/gi, '')
+    .replace(/\son[a-z]+="[^"]*"/gi, '')
+    .replace(/\sid="([^"]*)"/g, ` id="${idPrefix}$1"`)
+    .replace(/url\(#([^)]*)\)/g, `url(#${idPrefix}$1)`);
+}
+
+// Stable across builds, and different for each diagram of a page
+function getIdPrefix(source: string, index: number): string {
+  return `dot-${createHash('sha1').update(source).digest('hex').slice(0, 8)}-${index}-`;
+}
+
+/**
+ * Lets the diagram follow the page theme: default black lines and text take the
+ * text color, and the white page background goes away. Colors set in the graph stay.
+ */
+function themeGraphvizSvg(svg: string): string {
+  return svg
+    .slice(svg.indexOf('<svg'))
+    .replace(/<!--[\s\S]*?-->\n?/g, '')
+    .replace('<polygon fill="white" stroke="none"', '<polygon fill="none" stroke="none"')
+    .replace(/(fill|stroke)="black"/g, '$1="currentColor"')
+    .replace(/<text(?![^>]*\sfill=)/g, '<text fill="currentColor"');
+}
+
+function getText(node: HastNode): string {
+  if (typeof node.value === 'string') return node.value;
+  return (node.children || []).map(getText).join('');
+}
@@ -0,0 +1,56 @@
+import { createHeadingSlugger } from './heading-slug';
+
+interface HastNode {
+  type: string;
+  tagName?: string;
+  value?: string;
+  properties?: Record<string, unknown>;
+  children?: HastNode[];
+}
+
+/** A heading as listed in the "On this page" table of contents */
+export interface TocHeading {
+  id: string;
+  text: string;
+  level: number;
+}
+
+interface HeadingIdsOptions {
+  /** Receives the h2–h4 headings in document order */
+  collect?: TocHeading[];
+}
+
+const HEADING_TAGS = /^h[1-6]$/;
+
+/**
+ * Rehype plugin giving every heading a GitHub-style `id`, so "#section" links
+ * from other chapters and from the search index land on it
+ */
+export function rehypeHeadingIds(options: HeadingIdsOptions = {}) {
+  return (tree: HastNode) => {
+    const slugger = createHeadingSlugger();
+
+    const visit = (node: HastNode) => {
+      if (node.type === 'element' && node.tagName && HEADING_TAGS.test(node.tagName)) {
+        node.properties = node.properties || {};
+        const text = getText(node).trim();
+        if (!node.properties.id) {
+          node.properties.id = slugger(text);
+        }
+
+        const level = Number(node.tagName.slice(1));
+        if (options.collect && level >= 2 && level <= 4 && text) {
+          options.collect.push({ id: String(node.properties.id), text, level });
+        }
+        return;
+      }
+      node.children?.forEach(visit);
+    };
+    visit(tree);
+  };
+}
+
+function getText(node: HastNode): string {
+  if (node.type === 'text') return node.value || '';
+  return (node.children || []).map(getText).join('');
+}
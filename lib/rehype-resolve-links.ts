@@ -0,0 +1,28 @@
+import { resolveAssetUrl, resolveLinkHref, LinkContext } from './link-resolver';
+
+interface HastNode {
+  type: string;
+  tagName?: string;
+  properties?: Record<string, unknown>;
+  children?: HastNode[];
+}
+
+/**
+ * Rehype plugin rewriting relative `<a href>` and `<img src>` in guide content
+ * (see lib/link-resolver.ts for the mapping rules)
+ */
+export function rehypeResolveLinks(context: LinkContext) {
+  return (tree: HastNode) => {
+    const visit = (node: HastNode) => {
+      if (node.type === 'element' && node.properties) {
+        if (node.tagName === 'a' && typeof node.properties.href === 'string') {
+          node.properties.href = resolveLinkHref(node.properties.href, context);
+        } else if (node.tagName === 'img' && typeof node.properties.src === 'string') {
+          node.properties.src = resolveAssetUrl(node.properties.src, context);
+        }
+      }
+      node.children?.forEach(visit);
+    };
+    visit(tree);
+  };
+}
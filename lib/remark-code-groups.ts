@@ -0,0 +1,113 @@
+import { normalizeLanguage } from './guide-taxonomy';
+
+interface MdastNode {
+  type: string;
+  lang?: string | null;
+  meta?: string | null;
+  value?: string;
+  children?: MdastNode[];
+  data?: {
+    hName?: string;
+    hProperties?: Record<string, unknown>;
+  };
+}
+
+/** One tab of a code group, as passed to components/CodeGroup.tsx */
+export interface CodeGroupTab {
+  label: string;
+  /** Fence language, e.g. "rust"; '' when the fence has none */
+  language: string;
+}
+
+const GROUP_FLAG = /(^|\s)group(?=\s|$)/;
+const TAB_LABEL = /\[([^\]]+)\]/;
+
+/**
+ * Remark plugin turning alternative versions of the same code into one tabbed
+ * block. Either mark adjacent fences with `group` in their meta:
+ *
+ *     ```c group
+ *     ```rust group [Rust (unsafe)]
+ *
+ * or wrap them in a container:
+ *
+ *     :::code-group
+ *     ```c
+ *     ```rust
+ *     :::
+ *
+ * Tabs are labelled `[like this]` in the meta, or after the language. The
+ * fences end up in a `<div data-code-group>` that MDXClient renders as CodeGroup.
+ */
+export function remarkCodeGroups() {
+  return (tree: MdastNode) => {
+    const visit = (node: MdastNode) => {
+      if (!node.children) return;
+      node.children = groupChildren(node.children);
+      node.children.forEach(visit);
+    };
+    visit(tree);
+  };
+}
+
+function groupChildren(children: MdastNode[]): MdastNode[] {
+  const result: MdastNode[] = [];
+  let i = 0;
+  while (i < children.length) {
+    const node = children[i];
+
+    if (isContainerMarker(node, ':::code-group')) {
+      let end = i + 1;
+      while (end < children.length && children[end].type === 'code') end++;
+      if (end > i + 1 && end < children.length && isContainerMarker(children[end], ':::')) {
+        result.push(createGroup(children.slice(i + 1, end)));
+        i = end + 1;
+        continue;
+      }
+    }
+
+    if (isGroupedFence(node)) {
+      let end = i + 1;
+      while (end < children.length && isGroupedFence(children[end])) end++;
+      if (end - i >= 2) {
+        result.push(createGroup(children.slice(i, end)));
+        i = end;
+        continue;
+      }
+    }
+
+    result.push(node);
+    i++;
+  }
+  return result;
+}
+
+function createGroup(fences: MdastNode[]): MdastNode {
+  const tabs: CodeGroupTab[] = fences.map((fence) => {
+    const meta = fence.meta || '';
+    const language = fence.lang || '';
+    const label = TAB_LABEL.exec(meta)?.[1].trim() || (language ? normalizeLanguage(language) : 'Text');
+    // Leave only the meta that isn't about grouping for later plugins
+    fence.meta = meta.replace(TAB_LABEL, '').replace(GROUP_FLAG, ' ').trim() || null;
+    return { label, language };
+  });
+
+  return {
+    type: 'codeGroup',
+    children: fences,
+    data: { hName: 'div', hProperties: { dataCodeGroup: JSON.stringify(tabs) } },
+  };
+}
+
+function isGroupedFence(node: MdastNode): boolean {
+  return node.type === 'code' && GROUP_FLAG.test(node.meta || '');
+}
+
+function isContainerMarker(node: MdastNode, marker: string): boolean {
+  return node.type === 'paragraph' && getText(node).trim() === marker;
+}
+
+function getText(node: MdastNode): string {
+  if (typeof node.value === 'string') return node.value;
+  return (node.children || []).map(getText).join('');
+}
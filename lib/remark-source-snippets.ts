@@ -0,0 +1,91 @@
+import { getBlobUrl, getContentRef, getRawFileContent, getRepoInfo } from './github';
+import { LinkContext } from './link-resolver';
+import {
+  extractSnippet,
+  getSnippetLanguage,
+  getSourceText,
+  parseSnippetDirectives,
+  resolveSnippetPath,
+  SnippetDirective,
+} from './source-snippet';
+
+interface MdastNode {
+  type: string;
+  lang?: string | null;
+  meta?: string | null;
+  value?: string;
+  children?: MdastNode[];
+  position?: { start: { offset?: number }; end: { offset?: number } };
+  data?: {
+    hProperties?: Record<string, unknown>;
+  };
+}
+
+interface SourceSnippetsOptions {
+  repoName: string;
+  /** Where the rendered file lives; snippet paths resolve against it */
+  linkContext: LinkContext;
+}
+
+/**
+ * Remark plugin replacing `<<< src/parser.c#L10-L42` lines (or `#region-name`,
+ * see lib/source-snippet.ts) with the code they point to, read from the guide
+ * repository at the same commit as the chapter. The code block links to the file
+ * at that commit on GitHub through `data-source-url`; a snippet that can't be read keeps its
+ * directive as text and gets `data-source-error` instead.
+ */
+export function remarkSourceSnippets(options: SourceSnippetsOptions) {
+  return async (tree: MdastNode, file: { value?: unknown }) => {
+    const source = String(file.value ?? '');
+    const visit = async (node: MdastNode) => {
+      if (!node.children) return;
+      const children: MdastNode[] = [];
+      for (const child of node.children) {
+        const directives = child.type === 'paragraph' ? parseSnippetDirectives(getSourceText(child, source)) : null;
+        if (directives) {
+          children.push(...(await Promise.all(directives.map((directive) => createSnippet(directive, options)))));
+        } else {
+          await visit(child);
+          children.push(child);
+        }
+      }
+      node.children = children;
+    };
+    await visit(tree);
+  };
+}
+
+async function createSnippet(directive: SnippetDirective, { repoName, linkContext }: SourceSnippetsOptions): Promise<MdastNode> {
+  const written = `<<< ${directive.path}${directive.fragment ? `#${directive.fragment}` : ''}`;
+  const failed = (error: string): MdastNode => ({
+    type: 'code',
+    value: written,
+    data: { hProperties: { dataSourceError: `Could not include ${directive.path}: ${error}` } },
+  });
+
+  const repoPath = resolveSnippetPath(linkContext.filePath, directive.path);
+  if (repoPath === null) return failed('the path is outside the repository');
+
+  const content = await getRawFileContent(repoName, repoPath);
+  if (content === null) return failed('the file does not exist');
+
+  const { snippet, error } = extractSnippet(content, directive.fragment);
+  if (!snippet) return failed(error || 'nothing to include');
+
+  const [repo, commit] = await Promise.all([getRepoInfo(repoName), getContentRef(repoName)]);
+  const lines = snippet.startLine === snippet.endLine ? `#L${snippet.startLine}` : `#L${snippet.startLine}-L${snippet.endLine}`;
+  let meta = directive.meta.replace(/(^|\s)showLineNumbers(?=\s|$)/, `$1showLineNumbers{${snippet.startLine}}`);
+  if (!/(^|\s)title=/.test(meta)) meta = `title="${repoPath}" ${meta}`.trim();
+
+  return {
+    type: 'code',
+    lang: getSnippetLanguage(repoPath),
+    meta,
+    value: snippet.code,
+    data: {
+      hProperties: {
+        dataSourceUrl: `${getBlobUrl(repo.owner, repo.name, commit, encodeURI(repoPath))}${directive.fragment ? lines : ''}`,
+      },
+    },
+  };
+}
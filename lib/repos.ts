@@ -0,0 +1,59 @@
+import { repos, GuideRepoConfig } from '@/config/repos';
+
+export const DEFAULT_OWNER = 'implement-from-scratch';
+
+/**
+ * A guide repository from config/repos.ts with defaults applied
+ */
+export interface GuideRepo {
+  slug: string;
+  owner: string;
+  repo: string;
+  ref?: string;
+  docsPath: string;
+}
+
+/**
+ * Normalizes config/repos.ts entries and assigns each one a unique URL slug.
+ * Repositories sharing a name across owners are addressed as `owner--repo`;
+ * GitHub owners can't contain consecutive hyphens, so these never clash.
+ */
+export function getConfiguredGuides(entries: Array<string | GuideRepoConfig> = repos): GuideRepo[] {
+  const configs = entries.map((entry) => (typeof entry === 'string' ? { repo: entry } : entry));
+
+  const nameCounts = new Map<string, number>();
+  configs.forEach((config) => {
+    const name = config.repo.toLowerCase();
+    nameCounts.set(name, (nameCounts.get(name) || 0) + 1);
+  });
+
+  const guides = configs.map((config) => {
+    const owner = config.owner || DEFAULT_OWNER;
+    const isAmbiguous = (nameCounts.get(config.repo.toLowerCase()) || 0) > 1;
+    return {
+      slug: config.slug || (isAmbiguous ? `${owner}--${config.repo}` : config.repo),
+      owner,
+      repo: config.repo,
+      ref: config.ref,
+      docsPath: (config.docsPath || 'docs').replace(/^\.?\/+|\/+$/g, ''),
+    };
+  });
+
+  const seen = new Set<string>();
+  guides.forEach((guide) => {
+    if (seen.has(guide.slug)) {
+      throw new Error(`Duplicate guide slug "${guide.slug}" in config/repos.ts`);
+    }
+    seen.add(guide.slug);
+  });
+
+  return guides;
+}
+
+/**
+ * Looks up a configured guide by its URL slug
+ */
+export function resolveGuide(slug: string): GuideRepo | null {
+  const decoded = decodeURIComponent(slug);
+  return getConfiguredGuides().find((guide) => guide.slug === decoded) || null;
+}
@@ -0,0 +1,136 @@
+import matter from 'gray-matter';
+import { getChapters, getFileContent, getRepositoriesWithDocs, Chapter } from './github';
+import { createHeadingSlugger } from './heading-slug';
+
+/**
+ * One searchable unit: a guide, the top of a chapter, or a section under a heading.
+ * Shaped like the `Search` component's results.
+ */
+export interface SearchEntry {
+  id: string;
+  title: string;
+  description: string;
+  url: string;
+  category: string;
+  /** Section text for full-text matching (trimmed to keep the index small) */
+  content?: string;
+}
+
+interface Section {
+  heading: string | null;
+  anchor: string | null;
+  text: string[];
+}
+
+const MAX_CONTENT_LENGTH = 1500;
+const MAX_DESCRIPTION_LENGTH = 160;
+const BLOCK_TYPES = new Set(['paragraph', 'listItem', 'tableCell', 'blockquote']);
+
+/**
+ * Builds the search index for every configured guide. Chapters are split at
+ * h2/h3 headings so results can link to `/[repo]/[chapter]#section`; anchors
+ * use the same slugger as the rendered headings (lib/rehype-heading-ids.ts).
+ */
+export async function buildSearchIndex(): Promise<SearchEntry[]> {
+  const entries: SearchEntry[] = [];
+
+  for (const repo of await getRepositoriesWithDocs()) {
+    const guideTitle = repo.readmeTitle || repo.name;
+    entries.push({
+      id: repo.slug,
+      title: guideTitle,
+      description: repo.readmeDescription || repo.description || '',
+      url: `/${repo.slug}`,
+      category: 'Guide',
+    });
+
+    try {
+      const chapters = await getChapters(repo.slug);
+      for (const chapter of chapters) {
+        const content = await getFileContent(repo.slug, chapter.path);
+        if (content) {
+          entries.push(...(await indexChapter(repo.slug, guideTitle, chapter, content)));
+        }
+      }
+    } catch (error) {
+      console.error(`Error indexing chapters of ${repo.slug}:`, error);
+    }
+  }
+
+  return entries;
+}
+
+async function indexChapter(
+  repoSlug: string,
+  guideTitle: string,
+  chapter: Chapter,
+  content: string
+): Promise<SearchEntry[]> {
+  const { remark } = await import('remark');
+  const { default: remarkParse } = await import('remark-parse');
+  const { default: remarkGfm } = await import('remark-gfm');
+
+  const tree = remark().use(remarkParse).use(remarkGfm).parse(matter(content).content);
+  const slugger = createHeadingSlugger();
+  const sections: Section[] = [{ heading: null, anchor: null, text: [] }];
+
+  const visit = (node: any) => {
+    if (node.type === 'heading') {
+      // Every heading consumes a slug so anchors stay in sync with the rendered page
+      const heading = getText(node);
+      const anchor = slugger(heading);
+      if (node.depth === 2 || node.depth === 3) {
+        sections.push({ heading, anchor, text: [] });
+      }
+      return;
+    }
+    if (node.type === 'code' || node.type === 'html') return;
+    const text = sections[sections.length - 1].text;
+    if (node.type === 'text' || node.type === 'inlineCode') {
+      text.push(node.value);
+      return;
+    }
+    if (node.type === 'image') {
+      text.push(node.alt || '');
+      return;
+    }
+    node.children?.forEach(visit);
+    // Keep words of adjacent blocks (paragraphs, list items, table cells) apart
+    if (BLOCK_TYPES.has(node.type)) text.push(' ');
+  };
+  visit(tree);
+
+  const chapterUrl = `/${repoSlug}/${chapter.slug}`;
+
+  return sections.map((section) => {
+    const text = section.text.join('').replace(/\s+/g, ' ').trim();
+    if (!section.anchor) {
+      return {
+        id: `${repoSlug}/${chapter.slug}`,
+        title: chapter.title,
+        description: chapter.meta.summary || truncate(text, MAX_DESCRIPTION_LENGTH),
+        url: chapterUrl,
+        category: guideTitle,
+        content: truncate(text, MAX_CONTENT_LENGTH),
+      };
+    }
+    return {
+      id: `${repoSlug}/${chapter.slug}#${section.anchor}`,
+      title: section.heading || '',
+      description: truncate(text, MAX_DESCRIPTION_LENGTH),
+      url: `${chapterUrl}#${section.anchor}`,
+      category: `${guideTitle} › ${chapter.title}`,
+      content: truncate(text, MAX_CONTENT_LENGTH),
+    };
+  });
+}
+
+function getText(node: any): string {
+  if (node.type === 'html') return '';
+  if (typeof node.value === 'string') return node.value;
+  return (node.children || []).map(getText).join('');
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1).trimEnd()}…` : text;
+}
@@ -0,0 +1,136 @@
+import { resolveRepoPath } from './link-resolver';
+
+/** A `<<< path#fragment meta` line in guide content */
+export interface SnippetDirective {
+  /** File as written, relative to the repository root, or to the chapter when it starts with "." */
+  path: string;
+  /** "L10-L42", "L10" or a region name; '' for the whole file */
+  fragment: string;
+  /** Fence meta passed on to the code block, e.g. "{3} showLineNumbers" */
+  meta: string;
+}
+
+export interface Snippet {
+  code: string;
+  /** 1-based line range of the snippet in the file */
+  startLine: number;
+  endLine: number;
+}
+
+const DIRECTIVE = /^<<<\s+([^\s#]+)(?:#(\S+))?(?:\s+(.*))?$/;
+const LINE_RANGE = /^L(\d+)(?:-L?(\d+))?$/;
+const REGION_START = /#region\s+([\w.-]+)/;
+const REGION_END = /#endregion(?:\s+([\w.-]+))?/;
+
+/** File extensions whose highlight.js language has a different name */
+const LANGUAGES: Record<string, string> = {
+  h: 'c',
+  cc: 'cpp',
+  cxx: 'cpp',
+  hpp: 'cpp',
+  hh: 'cpp',
+  rs: 'rust',
+  py: 'python',
+  rb: 'ruby',
+  js: 'javascript',
+  mjs: 'javascript',
+  ts: 'typescript',
+  sh: 'bash',
+  mk: 'makefile',
+  s: 'x86asm',
+  asm: 'x86asm',
+  yml: 'yaml',
+};
+
+/**
+ * Parses a paragraph made only of snippet directives, one per line, e.g.
+ * `<<< src/parser.c#L10-L42` or `<<< src/parser.c#parse_line {2} showLineNumbers`.
+ * Returns null when any line is something else.
+ */
+export function parseSnippetDirectives(text: string): SnippetDirective[] | null {
+  const lines = text.trim().split('\n');
+  const directives: SnippetDirective[] = [];
+  for (const line of lines) {
+    const match = DIRECTIVE.exec(line.trim());
+    if (!match) return null;
+    directives.push({ path: match[1], fragment: match[2] || '', meta: (match[3] || '').trim() });
+  }
+  return directives;
+}
+
+/**
+ * A markdown node as written in `source`, e.g. a paragraph to look for directives
+ * in: parsed text would have lost the `__` and `*` of paths like src/__init__.py
+ */
+export function getSourceText(
+  node: { position?: { start: { offset?: number }; end: { offset?: number } } },
+  source: string
+): string {
+  const start = node.position?.start.offset;
+  const end = node.position?.end.offset;
+  return start === undefined || end === undefined ? '' : source.slice(start, end);
+}
+
+/** Repository path of a snippet's file, or null when it points outside the repository */
+export function resolveSnippetPath(fromFile: string, snippetPath: string): string | null {
+  return resolveRepoPath(fromFile, snippetPath.startsWith('.') || snippetPath.startsWith('/') ? snippetPath : `/${snippetPath}`);
+}
+
+/**
+ * Cuts the lines a fragment refers to out of a file: a line range, or the
+ * lines between `#region name` and `#endregion` comments. The snippet is
+ * dedented; line numbers stay those of the file.
+ */
+export function extractSnippet(content: string, fragment: string): { snippet?: Snippet; error?: string } {
+  const lines = content.replace(/\r\n/g, '\n').replace(/\n$/, '').split('\n');
+  let start = 1;
+  let end = lines.length;
+
+  const range = LINE_RANGE.exec(fragment);
+  if (range) {
+    start = Number(range[1]);
+    end = Number(range[2] ?? range[1]);
+    if (start < 1 || end < start) {
+      return { error: `${fragment} is not a valid line range` };
+    }
+    if (end > lines.length) {
+      return { error: `${fragment} is past the end of the file (${lines.length} lines)` };
+    }
+  } else if (fragment) {
+    const startIndex = lines.findIndex((line) => REGION_START.exec(line)?.[1] === fragment);
+    if (startIndex === -1) {
+      return { error: `no "#region ${fragment}" marker` };
+    }
+    const endOffset = lines.slice(startIndex + 1).findIndex((line) => {
+      const marker = REGION_END.exec(line);
+      return marker && (!marker[1] || marker[1] === fragment);
+    });
+    if (endOffset === -1) {
+      return { error: `region "${fragment}" has no "#endregion" marker` };
+    }
+    // The marker comments themselves are left out
+    start = startIndex + 2;
+    end = startIndex + 1 + endOffset;
+    if (end < start) {
+      return { error: `region "${fragment}" is empty` };
+    }
+  }
+
+  return { snippet: { code: dedent(lines.slice(start - 1, end)).join('\n'), startLine: start, endLine: end } };
+}
+
+/** highlight.js language for a file, from its extension */
+export function getSnippetLanguage(filePath: string): string | null {
+  const name = filePath.slice(filePath.lastIndexOf('/') + 1);
+  if (name === 'Makefile') return 'makefile';
+  const dot = name.lastIndexOf('.');
+  if (dot <= 0) return null;
+  const extension = name.slice(dot + 1).toLowerCase();
+  return LANGUAGES[extension] || extension;
+}
+
+function dedent(lines: string[]): string[] {
+  const indents = lines.filter((line) => line.trim()).map((line) => /^[ \t]*/.exec(line)![0].length);
+  const indent = indents.length ? Math.min(...indents) : 0;
+  return lines.map((line) => line.slice(indent));
+}
@@ -0,0 +1,103 @@
+import { createHash, randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { syncConfig } from '@/config/sync';
+import type { LearnerDataExport } from './learner-data';
+
+/** A stored document and the version it is at, sent to browsers as its ETag */
+export interface StoredDocument {
+  document: LearnerDataExport;
+  version: string;
+}
+
+/**
+ * Where synced learner data lives on the server, one document per sync code.
+ * Documents are opaque to the storage; merging happens in the browser.
+ */
+export interface SyncStorage {
+  read(code: string): Promise<StoredDocument | null>;
+  /**
+   * Replaces the document if it is still at `expectedVersion` (null: if there is
+   * none yet). Returns the new version, or null when another browser wrote first.
+   */
+  write(code: string, document: LearnerDataExport, expectedVersion: string | null): Promise<string | null>;
+  /** Number of stored documents */
+  count(): Promise<number>;
+}
+
+/**
+ * Stores each document as `<dir>/<code>.json`. Writes go through a temporary
+ * file and a rename so a crash never leaves a half-written document, and are
+ * serialized per code so the version check and the write can't interleave.
+ */
+export function createFileSyncStorage(dir: string): SyncStorage {
+  const root = path.resolve(dir);
+  // Sync codes are validated by the route, but never let one escape the directory
+  const filePath = (code: string) => path.join(root, `${code.replace(/[^A-Z0-9-]/gi, '')}.json`);
+  const pendingWrites = new Map<string, Promise<void>>();
+
+  const readFile = async (code: string): Promise<string | null> => {
+    try {
+      return await fs.readFile(filePath(code), 'utf-8');
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return null;
+      throw error;
+    }
+  };
+
+  return {
+    async read(code: string): Promise<StoredDocument | null> {
+      const content = await readFile(code);
+      return content === null ? null : { document: JSON.parse(content), version: getVersion(content) };
+    },
+
+    write(code: string, document: LearnerDataExport, expectedVersion: string | null): Promise<string | null> {
+      const write = async (): Promise<string | null> => {
+        const current = await readFile(code);
+        if ((current === null ? null : getVersion(current)) !== expectedVersion) return null;
+
+        await fs.mkdir(root, { recursive: true });
+        const target = filePath(code);
+        const content = JSON.stringify(document);
+        const temporary = `${target}.${randomUUID()}.tmp`;
+        await fs.writeFile(temporary, content, 'utf-8');
+        await fs.rename(temporary, target);
+        return getVersion(content);
+      };
+
+      // Wait for the previous write for this code, whether or not it succeeded
+      const result = (pendingWrites.get(code) || Promise.resolve()).then(write);
+      const settled = result.then(() => undefined, () => undefined);
+      pendingWrites.set(code, settled);
+      settled.then(() => {
+        if (pendingWrites.get(code) === settled) pendingWrites.delete(code);
+      });
+      return result;
+    },
+
+    async count(): Promise<number> {
+      try {
+        return (await fs.readdir(root)).filter((name) => name.endsWith('.json')).length;
+      } catch (error: any) {
+        if (error?.code === 'ENOENT') return 0;
+        throw error;
+      }
+    },
+  };
+}
+
+function getVersion(content: string): string {
+  return createHash('sha1').update(content).digest('hex').slice(0, 16);
+}
+
+let storage: SyncStorage | null = null;
+
+/**
+ * Returns the storage selected in config/sync.ts
+ */
+export function getSyncStorage(): SyncStorage {
+  if (!storage) {
+    storage = createFileSyncStorage(syncConfig.dir);
+  }
+  return storage;
+}
@@ -0,0 +1,114 @@
+/**
+ * Anchors a text selection by what it says rather than where it is, so
+ * highlights survive edits elsewhere in the chapter: the quoted text plus a
+ * little context on each side, and the offset it was found at as a tie-breaker.
+ */
+export interface TextQuoteAnchor {
+  exact: string;
+  prefix: string;
+  suffix: string;
+  /** Character offset in the root's text when the anchor was made */
+  start: number;
+}
+
+const CONTEXT_LENGTH = 32;
+
+interface TextIndex {
+  text: string;
+  nodes: Array<{ node: Text; start: number }>;
+}
+
+function indexText(root: Node): TextIndex {
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  const nodes: TextIndex['nodes'] = [];
+  let text = '';
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    nodes.push({ node: node as Text, start: text.length });
+    text += node.nodeValue || '';
+  }
+  return { text, nodes };
+}
+
+// Offset of a DOM position (container + offset) in the concatenated text of `root`
+function toTextOffset(root: Node, container: Node, offset: number): number {
+  const range = document.createRange();
+  range.setStart(root, 0);
+  range.setEnd(container, offset);
+  return range.toString().length;
+}
+
+function toDomPosition(index: TextIndex, offset: number): { node: Text; offset: number } | null {
+  for (let i = index.nodes.length - 1; i >= 0; i--) {
+    const { node, start } = index.nodes[i];
+    if (start <= offset) {
+      return { node, offset: Math.min(offset - start, node.length) };
+    }
+  }
+  return null;
+}
+
+/**
+ * Describes a range inside `root`, or returns null if it is empty or outside it
+ */
+export function describeRange(root: Node, range: Range): TextQuoteAnchor | null {
+  if (!root.contains(range.commonAncestorContainer)) return null;
+
+  const index = indexText(root);
+  const start = toTextOffset(root, range.startContainer, range.startOffset);
+  const end = toTextOffset(root, range.endContainer, range.endOffset);
+  if (end <= start) return null;
+
+  const exact = index.text.slice(start, end);
+  if (!exact.trim()) return null;
+
+  return {
+    exact,
+    prefix: index.text.slice(Math.max(0, start - CONTEXT_LENGTH), start),
+    suffix: index.text.slice(end, end + CONTEXT_LENGTH),
+    start,
+  };
+}
+
+/**
+ * Finds the anchored text in `root`. Among several occurrences of the quote,
+ * the one whose surrounding text best matches the stored context wins, then
+ * the one closest to the original offset. Returns null if the quote is gone.
+ */
+export function anchorToRange(root: Node, anchor: TextQuoteAnchor): Range | null {
+  const index = indexText(root);
+  let best: { start: number; score: number } | null = null;
+
+  for (let start = index.text.indexOf(anchor.exact); start !== -1; start = index.text.indexOf(anchor.exact, start + 1)) {
+    const before = index.text.slice(Math.max(0, start - anchor.prefix.length), start);
+    const after = index.text.slice(start + anchor.exact.length, start + anchor.exact.length + anchor.suffix.length);
+    const score =
+      commonSuffixLength(before, anchor.prefix) +
+      commonPrefixLength(after, anchor.suffix) -
+      Math.abs(start - anchor.start) / (index.text.length + 1);
+    if (!best || score > best.score) {
+      best = { start, score };
+    }
+  }
+  if (!best) return null;
+
+  const startPosition = toDomPosition(index, best.start);
+  const endPosition = toDomPosition(index, best.start + anchor.exact.length);
+  if (!startPosition || !endPosition) return null;
+
+  const range = document.createRange();
+  range.setStart(startPosition.node, startPosition.offset);
+  range.setEnd(endPosition.node, endPosition.offset);
+  return range;
+}
+
+function commonPrefixLength(a: string, b: string): number {
+  let length = 0;
+  while (length < a.length && length < b.length && a[length] === b[length]) length++;
+  return length;
+}
+
+function commonSuffixLength(a: string, b: string): number {
+  let length = 0;
+  while (length < a.length && length < b.length && a[a.length - 1 - length] === b[b.length - 1 - length]) length++;
+  return length;
+}
@@ -0,0 +1,22 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Annotation, readAnnotations, subscribeToAnnotations } from './annotations-store';
+
+/**
+ * Live view of a guide's annotations, optionally limited to one chapter.
+ * `isHydrated` is false until localStorage has been read.
+ */
+export function useAnnotations(repoName: string, chapterSlug?: string) {
+  const [annotations, setAnnotations] = useState<Annotation[]>([]);
+  const [isHydrated, setIsHydrated] = useState(false);
+
+  useEffect(() => {
+    const load = () => setAnnotations(readAnnotations(repoName, chapterSlug));
+    load();
+    setIsHydrated(true);
+    return subscribeToAnnotations(repoName, load);
+  }, [repoName, chapterSlug]);
+
+  return { annotations, isHydrated };
+}
@@ -0,0 +1,21 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Bookmark, readBookmarks, subscribeToBookmarks } from './bookmarks-store';
+
+/**
+ * Live view of all bookmarks. `isHydrated` is false until localStorage has been read.
+ */
+export function useBookmarks() {
+  const [bookmarks, setBookmarks] = useState<Bookmark[]>([]);
+  const [isHydrated, setIsHydrated] = useState(false);
+
+  useEffect(() => {
+    const load = () => setBookmarks(readBookmarks());
+    load();
+    setIsHydrated(true);
+    return subscribeToBookmarks(load);
+  }, []);
+
+  return { bookmarks, isHydrated };
+}
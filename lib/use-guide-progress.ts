@@ -0,0 +1,49 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  createEmptyProgress,
+  readAllGuideProgress,
+  readGuideProgress,
+  subscribeToAllProgress,
+  subscribeToProgress,
+  GuideProgress,
+} from './progress-store';
+
+/**
+ * Live view of a guide's reading progress. `isHydrated` is false until
+ * localStorage has been read, so server and first client render match.
+ * Pass the guide's chapter slugs in reading order to migrate legacy data.
+ */
+export function useGuideProgress(repoName: string, chapterSlugs?: string[]) {
+  const [progress, setProgress] = useState<GuideProgress>(createEmptyProgress);
+  const [isHydrated, setIsHydrated] = useState(false);
+  const slugsKey = chapterSlugs?.join('\n');
+
+  useEffect(() => {
+    const slugs = slugsKey === undefined ? undefined : slugsKey.split('\n');
+    const load = () => setProgress(readGuideProgress(repoName, slugs));
+    load();
+    setIsHydrated(true);
+    return subscribeToProgress(repoName, load);
+  }, [repoName, slugsKey]);
+
+  return { progress, isHydrated };
+}
+
+/**
+ * Live view of the progress of every guide the reader has opened, keyed by guide slug
+ */
+export function useAllGuideProgress() {
+  const [progress, setProgress] = useState<Record<string, GuideProgress>>({});
+  const [isHydrated, setIsHydrated] = useState(false);
+
+  useEffect(() => {
+    const load = () => setProgress(readAllGuideProgress());
+    load();
+    setIsHydrated(true);
+    return subscribeToAllProgress(load);
+  }, []);
+
+  return { progress, isHydrated };
+}
@@ -0,0 +1,23 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  readPreferredCodeLanguage,
+  setPreferredCodeLanguage,
+  subscribeToPreferredCodeLanguage,
+} from './code-language-preference';
+
+/**
+ * Live view of the reader's preferred code language, shared by every code group on the page
+ */
+export function usePreferredCodeLanguage() {
+  const [preferred, setPreferred] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = () => setPreferred(readPreferredCodeLanguage());
+    load();
+    return subscribeToPreferredCodeLanguage(load);
+  }, []);
+
+  return { preferred, setPreferred: setPreferredCodeLanguage };
+}
@@ -0,0 +1,42 @@
+/**
+ * Reports broken references in the configured guides.
+ *
+ *   npm run check-links                 # every guide in config/repos.ts
+ *   npm run check-links -- shell-c      # selected guides
+ *   npm run check-links -- --json       # machine-readable output
+ *
+ * Exits with status 1 when any issue is found.
+ */
+import { checkAllGuides, checkGuideLinks, GuideLinkReport, LINK_ISSUE_LABELS } from '@/lib/link-checker';
+
+async function main() {
+  const args = process.argv.slice(2);
+  const json = args.includes('--json');
+  const slugs = args.filter((arg) => !arg.startsWith('--'));
+
+  const reports: GuideLinkReport[] = slugs.length
+    ? await Promise.all(slugs.map((slug) => checkGuideLinks(slug)))
+    : await checkAllGuides();
+
+  const issueCount = reports.reduce((count, report) => count + report.issues.length, 0);
+
+  if (json) {
+    console.log(JSON.stringify(reports, null, 2));
+  } else {
+    for (const report of reports) {
+      console.log(`\n${report.repo} (${report.checkedFiles} files, ${report.issues.length} issues)`);
+      for (const issue of report.issues) {
+        const location = issue.line ? `${issue.file}:${issue.line}` : issue.file;
+        console.log(`  ${location}  ${LINK_ISSUE_LABELS[issue.kind]}: ${issue.message}`);
+      }
+    }
+    console.log(issueCount ? `\n${issueCount} issue(s) found` : '\nNo broken references found');
+  }
+
+  process.exit(issueCount ? 1 : 0);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(2);
+});
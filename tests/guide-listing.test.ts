@@ -0,0 +1,88 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { Repository } from '../lib/content-source';
+import { GuideReaderState, groupGuides, sortGuides } from '../lib/guide-listing';
+
+function guide(name: string, fields: Partial<Repository> = {}): Repository {
+  return {
+    slug: name,
+    owner: 'implement-from-scratch',
+    name,
+    description: null,
+    full_name: `implement-from-scratch/${name}`,
+    default_branch: 'main',
+    ref: 'main',
+    docsPath: 'docs',
+    ...fields,
+  };
+}
+
+const shell = guide('shell', {
+  pushed_at: '2024-03-01T00:00:00Z',
+  chapterCount: 10,
+  taxonomy: { languages: ['C'], topics: ['processes'], difficulty: 'intermediate' },
+});
+const lexer = guide('lexer', {
+  pushed_at: '2024-05-01T00:00:00Z',
+  chapterCount: 4,
+  taxonomy: { languages: ['Rust', 'C'], topics: [], difficulty: 'beginner' },
+});
+const database = guide('database', { pushed_at: 'not a date', chapterCount: 20 });
+const kernel = guide('kernel', { pushed_at: null, taxonomy: { languages: [], topics: [], difficulty: 'advanced' } });
+const repos = [shell, lexer, database, kernel];
+
+const names = (list: Repository[]) => list.map((repo) => repo.name);
+
+describe('sortGuides', () => {
+  it('lists recently updated guides first, with missing or invalid dates last by title', () => {
+    assert.deepEqual(names(sortGuides(repos, 'updated', {})), ['lexer', 'shell', 'database', 'kernel']);
+  });
+
+  it('sorts by title, chapter count and difficulty, unknown values last', () => {
+    assert.deepEqual(names(sortGuides(repos, 'title', {})), ['database', 'kernel', 'lexer', 'shell']);
+    assert.deepEqual(names(sortGuides(repos, 'chapters', {})), ['lexer', 'shell', 'database', 'kernel']);
+    assert.deepEqual(names(sortGuides(repos, 'difficulty', {})), ['lexer', 'shell', 'kernel', 'database']);
+  });
+
+  it('puts started guides first, most recently read, then the rest by update date', () => {
+    const state: Record<string, GuideReaderState> = {
+      database: { completedChapters: 2, lastReadAt: 100 },
+      shell: { completedChapters: 1, lastReadAt: 200 },
+      // Finished guides aren't "started" anymore
+      lexer: { completedChapters: 4, lastReadAt: 300 },
+    };
+    assert.deepEqual(names(sortGuides(repos, 'started', state)), ['shell', 'database', 'lexer', 'kernel']);
+    assert.deepEqual(names(sortGuides(repos, 'started', {})), ['lexer', 'shell', 'database', 'kernel']);
+  });
+
+  it('sorts by the share of chapters completed', () => {
+    const state: Record<string, GuideReaderState> = {
+      shell: { completedChapters: 5, lastReadAt: 1 },
+      database: { completedChapters: 5, lastReadAt: 1 },
+    };
+    assert.deepEqual(names(sortGuides(repos, 'progress', state)), ['shell', 'database', 'kernel', 'lexer']);
+  });
+
+  it('does not modify the list it is given', () => {
+    sortGuides(repos, 'title', {});
+    assert.deepEqual(names(repos), ['shell', 'lexer', 'database', 'kernel']);
+  });
+});
+
+describe('groupGuides', () => {
+  it('lists guides under each of their languages, with an Other group last', () => {
+    const groups = groupGuides(repos, 'language');
+    assert.deepEqual(
+      groups.map((group) => [group.label, names(group.repos)]),
+      [
+        ['C', ['shell', 'lexer']],
+        ['Rust', ['lexer']],
+        ['Other', ['database', 'kernel']],
+      ]
+    );
+  });
+
+  it('returns a single group when not grouping', () => {
+    assert.deepEqual(groupGuides(repos, 'none'), [{ key: '', label: '', repos }]);
+  });
+});
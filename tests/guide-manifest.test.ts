@@ -0,0 +1,91 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseGuideManifest } from '../lib/guide-manifest';
+
+describe('parseGuideManifest', () => {
+  it('reads a YAML manifest with parts', () => {
+    const { manifest, errors } = parseGuideManifest(
+      [
+        'title: Build Your Own Shell',
+        'languages: [c]',
+        'topics: [Shell, processes]',
+        'difficulty: intermediate',
+        'status: complete',
+        'parts:',
+        '  - title: Running programs',
+        '    chapters: [./01_introduction.md, 02_processes]',
+        '  - title: Parsing',
+        '    chapters: [part-2-parser/03_tokens]',
+        'assets:',
+        '  - path: ./starter/',
+        '    title: Starter code',
+      ].join('\n'),
+      'guide.yaml'
+    );
+
+    assert.deepEqual(errors, []);
+    assert.equal(manifest?.title, 'Build Your Own Shell');
+    assert.deepEqual(manifest?.taxonomy, {
+      languages: ['C'],
+      topics: ['shell', 'processes'],
+      difficulty: 'intermediate',
+      status: 'complete',
+    });
+    assert.deepEqual(manifest?.chapterOrder, ['01_introduction', '02_processes', 'part-2-parser/03_tokens']);
+    assert.deepEqual(manifest?.parts?.[0].chapters, ['01_introduction', '02_processes']);
+    assert.deepEqual(manifest?.assets, [{ path: 'starter', title: 'Starter code' }]);
+  });
+
+  it('reads a JSON manifest with a flat chapter list and a single language', () => {
+    const { manifest, errors } = parseGuideManifest(
+      JSON.stringify({ language: 'rust', chapters: ['01_intro', '02_lexer.md'] }),
+      'guide.json'
+    );
+
+    assert.deepEqual(errors, []);
+    assert.deepEqual(manifest?.taxonomy.languages, ['Rust']);
+    assert.deepEqual(manifest?.chapterOrder, ['01_intro', '02_lexer']);
+    assert.equal(manifest?.parts, undefined);
+  });
+
+  it('reports syntax errors', () => {
+    const { manifest, errors } = parseGuideManifest('{"title": ', 'guide.json');
+    assert.equal(manifest, null);
+    assert.equal(errors.length, 1);
+    assert.match(errors[0], /^not valid JSON: /);
+  });
+
+  it('reports schema errors with their location', () => {
+    const { manifest, errors } = parseGuideManifest(
+      [
+        'title: ""',
+        'status: wip',
+        'colour: blue',
+        'parts:',
+        '  - title: Parsing',
+      ].join('\n'),
+      'guide.yml'
+    );
+
+    assert.equal(manifest, null);
+    assert.deepEqual(errors.sort(), [
+      'parts[0]: missing required field "chapters"',
+      'status: must be one of "draft", "in-progress", "complete"',
+      'title: must not be empty',
+      'unknown field "colour"',
+    ]);
+  });
+
+  it('rejects conflicting and duplicate fields', () => {
+    assert.deepEqual(
+      parseGuideManifest('chapters: [a]\nparts:\n  - title: A\n    chapters: [a]', 'guide.yaml').errors,
+      ['use either "parts" or "chapters" to order chapters, not both']
+    );
+    assert.deepEqual(parseGuideManifest('language: C\nlanguages: [C]', 'guide.yaml').errors, [
+      'use either "language" or "languages", not both',
+    ]);
+    assert.deepEqual(parseGuideManifest('chapters: [01_intro, ./01_intro.md, 02_next]', 'guide.yaml').errors, [
+      'chapters listed more than once: 01_intro',
+    ]);
+  });
+});
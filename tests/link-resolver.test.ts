@@ -0,0 +1,79 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { LinkContext, resolveAssetUrl, resolveLinkHref, resolveRepoPath } from '../lib/link-resolver';
+
+const context: LinkContext = {
+  repoSlug: 'build-your-own-shell',
+  filePath: 'docs/01_introduction.md',
+  docsPath: 'docs',
+  chapterSlugs: {
+    'docs/01_introduction.md': '01_introduction',
+    'docs/02_processes.md': '02_processes',
+    'docs/part-2-parser/03_tokens.md': 'part-2-parser/03_tokens',
+  },
+  rawBaseUrl: 'https://raw.githubusercontent.com/implement-from-scratch/shell/main',
+  blobBaseUrl: 'https://github.com/implement-from-scratch/shell/blob/main',
+};
+
+describe('resolveRepoPath', () => {
+  it('resolves paths relative to the file', () => {
+    assert.equal(resolveRepoPath('docs/01_introduction.md', './02_processes.md'), 'docs/02_processes.md');
+    assert.equal(resolveRepoPath('docs/part-2-parser/03_tokens.md', '../01_introduction.md'), 'docs/01_introduction.md');
+    assert.equal(resolveRepoPath('docs/01_introduction.md', '../src/main.c'), 'src/main.c');
+  });
+
+  it('resolves paths starting with / against the repository root', () => {
+    assert.equal(resolveRepoPath('docs/part-2-parser/03_tokens.md', '/src/parser.c'), 'src/parser.c');
+  });
+
+  it('drops the query and anchor, and decodes the path', () => {
+    assert.equal(resolveRepoPath('docs/01_introduction.md', './02_processes.md#fork'), 'docs/02_processes.md');
+    assert.equal(resolveRepoPath('docs/01_introduction.md', '../my%20notes.md?plain=1'), 'my notes.md');
+  });
+
+  it('returns "." for the repository root and strips trailing slashes', () => {
+    assert.equal(resolveRepoPath('docs/01_introduction.md', '../'), '.');
+    assert.equal(resolveRepoPath('docs/01_introduction.md', '../src/'), 'src');
+  });
+
+  it('ignores external links, anchors and paths outside the repository', () => {
+    assert.equal(resolveRepoPath('docs/01_introduction.md', 'https://example.com/a.md'), null);
+    assert.equal(resolveRepoPath('docs/01_introduction.md', '//example.com/a.md'), null);
+    assert.equal(resolveRepoPath('docs/01_introduction.md', 'mailto:someone@example.com'), null);
+    assert.equal(resolveRepoPath('docs/01_introduction.md', '#setup'), null);
+    assert.equal(resolveRepoPath('docs/01_introduction.md', '../../outside.md'), null);
+  });
+});
+
+describe('resolveLinkHref', () => {
+  it('links chapters to their site route, keeping the anchor', () => {
+    assert.equal(resolveLinkHref('./02_processes.md#fork', context), '/build-your-own-shell/02_processes#fork');
+    assert.equal(resolveLinkHref('./part-2-parser/03_tokens.md', context), '/build-your-own-shell/part-2-parser/03_tokens');
+  });
+
+  it('links the READMEs and the repository root to the guide page', () => {
+    assert.equal(resolveLinkHref('../README.md', context), '/build-your-own-shell');
+    assert.equal(resolveLinkHref('./README.md#roadmap', context), '/build-your-own-shell#roadmap');
+    assert.equal(resolveLinkHref('../', context), '/build-your-own-shell');
+  });
+
+  it('links other repository files to GitHub', () => {
+    assert.equal(resolveLinkHref('../src/main.c#L10', context), `${context.blobBaseUrl}/src/main.c#L10`);
+    assert.equal(resolveLinkHref('../my%20notes.txt', context), `${context.blobBaseUrl}/my%20notes.txt`);
+  });
+
+  it('leaves external links and in-page anchors alone', () => {
+    assert.equal(resolveLinkHref('https://man7.org/linux/man-pages/man2/fork.2.html', context), 'https://man7.org/linux/man-pages/man2/fork.2.html');
+    assert.equal(resolveLinkHref('#setup', context), '#setup');
+  });
+});
+
+describe('resolveAssetUrl', () => {
+  it('serves relative images from raw URLs', () => {
+    assert.equal(resolveAssetUrl('./images/pipe.png', context), `${context.rawBaseUrl}/docs/images/pipe.png`);
+  });
+
+  it('leaves absolute URLs alone', () => {
+    assert.equal(resolveAssetUrl('https://example.com/pipe.png', context), 'https://example.com/pipe.png');
+  });
+});
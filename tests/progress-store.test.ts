@@ -0,0 +1,140 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it } from 'node:test';
+import {
+  createEmptyProgress,
+  getStorageKey,
+  GuideProgress,
+  markChapterVisited,
+  progressData,
+  readAllGuideProgress,
+  readGuideProgress,
+  recordReadingPosition,
+} from '../lib/progress-store';
+
+// Just enough of the browser for the store: localStorage and window events
+class MemoryStorage {
+  private items = new Map<string, string>();
+  get length() {
+    return this.items.size;
+  }
+  key(index: number) {
+    return Array.from(this.items.keys())[index] ?? null;
+  }
+  getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+  setItem(key: string, value: string) {
+    this.items.set(key, String(value));
+  }
+  removeItem(key: string) {
+    this.items.delete(key);
+  }
+  clear() {
+    this.items.clear();
+  }
+}
+
+const globals = globalThis as Record<string, unknown>;
+globals.window = new EventTarget();
+globals.localStorage = new MemoryStorage();
+
+const storage = globals.localStorage as MemoryStorage;
+// Slugs in reading order, as a manifest might list them; the legacy format indexed them by file name
+const CHAPTERS = ['introduction', 'processes', 'part-2-parser/tokens', 'appendix'];
+
+function stored(repoName: string): GuideProgress {
+  return JSON.parse(storage.getItem(getStorageKey(repoName)) || 'null');
+}
+
+beforeEach(() => storage.clear());
+
+describe('legacy progress migration', () => {
+  it('maps indexes through the old file name order and marks them visited', () => {
+    storage.setItem(getStorageKey('shell'), JSON.stringify([0, 2]));
+
+    const progress = readGuideProgress('shell', CHAPTERS);
+
+    // Old order: appendix.md, introduction.md, processes.md
+    assert.deepEqual(Object.keys(progress.chapters).sort(), ['appendix', 'processes']);
+    Object.values(progress.chapters).forEach((chapter) => {
+      assert.equal(chapter.scrollDepth, 0);
+      assert.equal(chapter.completedAt, undefined);
+      assert.equal(typeof chapter.visitedAt, 'number');
+    });
+    assert.deepEqual(stored('shell'), progress);
+  });
+
+  it('drops indexes past the old chapter list', () => {
+    storage.setItem(getStorageKey('shell'), JSON.stringify([1, 7]));
+    assert.deepEqual(Object.keys(readGuideProgress('shell', CHAPTERS).chapters), ['introduction']);
+  });
+
+  it('leaves legacy data alone until the chapter list is known', () => {
+    storage.setItem(getStorageKey('shell'), JSON.stringify([0]));
+
+    assert.deepEqual(readGuideProgress('shell'), createEmptyProgress());
+    markChapterVisited('shell', 'processes');
+    recordReadingPosition('shell', 'processes', { depth: 0.5 });
+
+    assert.deepEqual(stored('shell'), [0]);
+    assert.deepEqual(readAllGuideProgress(), {});
+  });
+});
+
+describe('reading position', () => {
+  it('only moves the scroll depth forward', () => {
+    recordReadingPosition('shell', 'processes', { depth: 0.6 });
+    recordReadingPosition('shell', 'processes', { depth: 0.3, section: { id: 'fork', text: 'fork()' } });
+
+    const chapter = readGuideProgress('shell').chapters.processes;
+    assert.equal(chapter.scrollDepth, 0.6);
+    assert.deepEqual(chapter.lastSection, { id: 'fork', text: 'fork()' });
+  });
+});
+
+describe('progressData.merge', () => {
+  it('keeps the most recently updated entry of each chapter', () => {
+    const local: GuideProgress = {
+      version: 1,
+      chapters: {
+        introduction: { visitedAt: 1, scrollDepth: 1, completedAt: 5, updatedAt: 5 },
+        processes: { visitedAt: 1, scrollDepth: 0.2, updatedAt: 2 },
+      },
+      updatedAt: 5,
+    };
+    storage.setItem(getStorageKey('shell'), JSON.stringify(local));
+
+    const changed = progressData.merge({
+      shell: {
+        version: 1,
+        chapters: {
+          introduction: { visitedAt: 1, scrollDepth: 0.5, updatedAt: 3 },
+          processes: { visitedAt: 1, scrollDepth: 0.9, updatedAt: 8 },
+          appendix: { visitedAt: 7, scrollDepth: 0, updatedAt: 7 },
+        },
+        updatedAt: 8,
+      },
+    });
+
+    assert.equal(changed, 2);
+    const merged = stored('shell');
+    assert.equal(merged.chapters.introduction.completedAt, 5);
+    assert.equal(merged.chapters.processes.scrollDepth, 0.9);
+    assert.equal(merged.chapters.appendix.visitedAt, 7);
+    assert.equal(merged.updatedAt, 8);
+  });
+
+  it('skips guides whose local progress is not migrated yet, and invalid data', () => {
+    storage.setItem(getStorageKey('shell'), JSON.stringify([0]));
+    const incoming = { version: 1 as const, chapters: { introduction: { scrollDepth: 1, updatedAt: 9 } }, updatedAt: 9 };
+
+    const changed = progressData.merge({
+      shell: incoming,
+      lexer: { chapters: {} } as unknown as GuideProgress,
+    });
+
+    assert.equal(changed, 0);
+    assert.deepEqual(stored('shell'), [0]);
+    assert.equal(storage.getItem(getStorageKey('lexer')), null);
+  });
+});
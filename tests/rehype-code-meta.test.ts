@@ -0,0 +1,62 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { rehypeCodeMeta } from '../lib/rehype-code-meta';
+
+interface Element {
+  type: string;
+  tagName?: string;
+  value?: string;
+  properties?: Record<string, any>;
+  children?: Element[];
+  data?: { meta?: string };
+}
+
+function codeBlock(text: string, meta: string, className: string[] = ['language-c']): { tree: Element; code: Element } {
+  const code: Element = {
+    type: 'element',
+    tagName: 'code',
+    properties: { className },
+    data: { meta },
+    children: [{ type: 'text', value: text }],
+  };
+  return { tree: { type: 'root', children: [{ type: 'element', tagName: 'pre', children: [code] }] }, code };
+}
+
+function lines(code: Element): Element[] {
+  return (code.children || []).filter((child) => child.tagName === 'span');
+}
+
+describe('rehypeCodeMeta', () => {
+  it('sets the file name and leaves the code alone without line options', () => {
+    const { tree, code } = codeBlock('int x;\n', 'title="src/main.c"');
+    rehypeCodeMeta()(tree);
+    assert.equal(code.properties?.dataFilename, 'src/main.c');
+    assert.deepEqual(code.children, [{ type: 'text', value: 'int x;\n' }]);
+  });
+
+  it('splits the code into numbered lines and highlights the requested ones', () => {
+    const { tree, code } = codeBlock('a\nb\nc\n', '{2-3} showLineNumbers{10}');
+    rehypeCodeMeta()(tree);
+
+    const spans = lines(code);
+    assert.deepEqual(spans.map((line) => line.properties?.dataLine), [10, 11, 12]);
+    assert.deepEqual(spans.map((line) => 'dataHighlighted' in (line.properties || {})), [false, true, true]);
+    assert.equal(code.properties?.dataLineNumbers, '');
+  });
+
+  it('marks added and removed lines in diff blocks', () => {
+    const { tree, code } = codeBlock('--- a/main.c\n-old\n+new\n same\n', '', ['language-diff']);
+    rehypeCodeMeta()(tree);
+    assert.deepEqual(lines(code).map((line) => line.properties?.dataDiff), [undefined, 'remove', 'add', undefined]);
+  });
+
+  it('folds collapsed ranges into details elements', () => {
+    const { tree, code } = codeBlock('1\n2\n3\n4\n', 'collapse={2-3}');
+    rehypeCodeMeta()(tree);
+
+    const details = code.children?.find((child) => child.tagName === 'details');
+    assert.equal(details?.children?.[0].children?.[0].value, '2 collapsed lines');
+    assert.deepEqual(lines(details!).map((line) => line.properties?.dataLine), [2, 3]);
+    assert.deepEqual(lines(code).map((line) => line.properties?.dataLine), [1, 4]);
+  });
+});
@@ -0,0 +1,100 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { remark } from 'remark';
+import {
+  extractSnippet,
+  getSnippetLanguage,
+  getSourceText,
+  parseSnippetDirectives,
+  resolveSnippetPath,
+} from '../lib/source-snippet';
+
+const FILE = [
+  'int main(void) {',
+  '    // #region parse_line',
+  '    char *line = read_line();',
+  '    parse(line);',
+  '    // #endregion',
+  '    // #region empty',
+  '    // #endregion',
+  '    return 0;',
+  '}',
+  '',
+].join('\n');
+
+describe('parseSnippetDirectives', () => {
+  it('reads the path, fragment and meta of each line', () => {
+    assert.deepEqual(parseSnippetDirectives('<<< src/parser.c#L10-L42\n<<< ./main.c#parse_line {2} showLineNumbers'), [
+      { path: 'src/parser.c', fragment: 'L10-L42', meta: '' },
+      { path: './main.c', fragment: 'parse_line', meta: '{2} showLineNumbers' },
+    ]);
+    assert.deepEqual(parseSnippetDirectives('<<< Makefile'), [{ path: 'Makefile', fragment: '', meta: '' }]);
+  });
+
+  it('returns null when any line is not a directive', () => {
+    assert.equal(parseSnippetDirectives('<<< src/parser.c\nand some text'), null);
+    assert.equal(parseSnippetDirectives('Read src/parser.c'), null);
+  });
+
+  it('keeps underscores that markdown would read as emphasis', () => {
+    const source = 'Intro\n\n<<< src/__init__.py#L1-L2\n';
+    const paragraph = remark().parse(source).children[1];
+    assert.deepEqual(parseSnippetDirectives(getSourceText(paragraph, source)), [
+      { path: 'src/__init__.py', fragment: 'L1-L2', meta: '' },
+    ]);
+  });
+});
+
+describe('resolveSnippetPath', () => {
+  it('resolves plain paths against the repository root and ./ paths against the chapter', () => {
+    assert.equal(resolveSnippetPath('docs/02_processes.md', 'src/parser.c'), 'src/parser.c');
+    assert.equal(resolveSnippetPath('docs/02_processes.md', './examples/fork.c'), 'docs/examples/fork.c');
+    assert.equal(resolveSnippetPath('docs/02_processes.md', '../src/parser.c'), 'src/parser.c');
+  });
+
+  it('refuses paths outside the repository', () => {
+    assert.equal(resolveSnippetPath('docs/02_processes.md', '../../secret.txt'), null);
+  });
+});
+
+describe('extractSnippet', () => {
+  it('cuts out a line range', () => {
+    assert.deepEqual(extractSnippet(FILE, 'L3-L4'), {
+      snippet: { code: 'char *line = read_line();\nparse(line);', startLine: 3, endLine: 4 },
+    });
+    assert.deepEqual(extractSnippet(FILE, 'L8').snippet, { code: 'return 0;', startLine: 8, endLine: 8 });
+  });
+
+  it('returns the whole file without a fragment', () => {
+    const { snippet } = extractSnippet(FILE, '');
+    assert.equal(snippet?.startLine, 1);
+    assert.equal(snippet?.endLine, 9);
+    assert.equal(snippet?.code, FILE.trimEnd());
+  });
+
+  it('cuts out a region without its markers, dedented', () => {
+    assert.deepEqual(extractSnippet(FILE, 'parse_line').snippet, {
+      code: 'char *line = read_line();\nparse(line);',
+      startLine: 3,
+      endLine: 4,
+    });
+  });
+
+  it('reports invalid ranges and regions', () => {
+    assert.equal(extractSnippet(FILE, 'L4-L3').error, 'L4-L3 is not a valid line range');
+    assert.equal(extractSnippet(FILE, 'L8-L20').error, 'L8-L20 is past the end of the file (9 lines)');
+    assert.equal(extractSnippet(FILE, 'missing').error, 'no "#region missing" marker');
+    assert.equal(extractSnippet(FILE, 'empty').error, 'region "empty" is empty');
+    assert.equal(extractSnippet('// #region open\ncode', 'open').error, 'region "open" has no "#endregion" marker');
+  });
+});
+
+describe('getSnippetLanguage', () => {
+  it('maps file extensions to highlight.js languages', () => {
+    assert.equal(getSnippetLanguage('src/parser.c'), 'c');
+    assert.equal(getSnippetLanguage('src/lib.rs'), 'rust');
+    assert.equal(getSnippetLanguage('include/shell.h'), 'c');
+    assert.equal(getSnippetLanguage('Makefile'), 'makefile');
+    assert.equal(getSnippetLanguage('.gitignore'), null);
+  });
+});
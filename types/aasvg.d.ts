@@ -0,0 +1,10 @@
+declare module 'aasvg/markdeep-diagram.js' {
+  interface DiagramOptions {
+    /** Split text runs after this many spaces (default 2) */
+    spaces?: number;
+    disableText?: boolean;
+    style?: Record<string, string>;
+  }
+
+  export function diagramToSVG(diagram: string, options?: DiagramOptions): string;
+}